@@ -29,6 +29,15 @@ export default tseslint.config(
 			"import/no-extraneous-dependencies": "off",
 		},
 	},
+	{
+		// Only the files with the Hypothesis import strings.
+		files: ["src/main.ts", "src/views/HypothesisImportModal.ts"],
+		plugins: {obsidianmd},
+		rules: {
+			// "Hypothesis" is the name of the annotation service we import from.
+			"obsidianmd/ui/sentence-case": ["error", {enforceCamelCaseLower: true, ignoreWords: ["Hypothesis"]}],
+		},
+	},
 	globalIgnores([
 		"node_modules",
 		"dist",
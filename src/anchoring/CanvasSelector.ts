@@ -0,0 +1,56 @@
+import type {CanvasTarget} from '../types';
+import {isRecord} from '../storage/validation';
+import {normalizeWhitespace} from './FuzzyMatcher';
+
+export interface CanvasItem {
+	type: 'node' | 'edge';
+	id: string;
+	text: string;
+}
+
+/** Reads the nodes and edges of a `.canvas` file. Unreadable files have no items. */
+export function parseCanvas(raw: string): CanvasItem[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(raw);
+	} catch {
+		return [];
+	}
+	if (!isRecord(data)) return [];
+
+	const items: CanvasItem[] = [];
+	for (const node of Array.isArray(data.nodes) ? data.nodes : []) {
+		if (isRecord(node) && typeof node.id === 'string') {
+			items.push({type: 'node', id: node.id, text: getCanvasItemText(node)});
+		}
+	}
+	for (const edge of Array.isArray(data.edges) ? data.edges : []) {
+		if (isRecord(edge) && typeof edge.id === 'string') {
+			items.push({type: 'edge', id: edge.id, text: getCanvasItemText(edge)});
+		}
+	}
+	return items;
+}
+
+/** The text a canvas item shows: a card's text, a file or link node's target, a group or edge label. */
+export function getCanvasItemText(item: Record<string, unknown>): string {
+	for (const key of ['text', 'file', 'url', 'label']) {
+		const value = item[key];
+		if (typeof value === 'string' && value.trim()) return normalizeWhitespace(value);
+	}
+	return '';
+}
+
+/**
+ * Finds the item a canvas comment points at. The id is tried first; if the item
+ * was recreated under a new id, a single item of the same type with the same
+ * text is taken instead. Returns the item's current id, or null when it is gone.
+ */
+export function resolveCanvasTarget(target: CanvasTarget, items: CanvasItem[]): string | null {
+	if (items.some(i => i.type === target.type && i.id === target.id)) return target.id;
+
+	const text = normalizeWhitespace(target.text);
+	if (!text) return null;
+	const matches = items.filter(i => i.type === target.type && i.text === text);
+	return matches.length === 1 ? matches[0]!.id : null;
+}
@@ -0,0 +1,75 @@
+import type {AnchoredComment, CommentTarget, ResolvedAnchor} from '../types';
+import {createTarget, resolveAnchor} from './TextQuoteSelector';
+import {normalizeWhitespace} from './FuzzyMatcher';
+
+const MAX_CANDIDATES = 3;
+// Share of a quote's words a note must contain before the fuzzy stage searches it
+const MIN_WORD_OVERLAP = 0.5;
+
+export interface MovedAnchorCandidate {
+	notePath: string;
+	anchor: ResolvedAnchor;
+	/** The target for the comment at its new position; its prefix and suffix show where it is */
+	target: CommentTarget;
+	/** The text found, which differs from the quote after a fuzzy match */
+	match: string;
+}
+
+export interface MovedAnchor {
+	comment: AnchoredComment;
+	/** Best first: exact matches before fuzzy ones */
+	candidates: MovedAnchorCandidate[];
+}
+
+/**
+ * Looks for the text of orphaned comments in other notes, using the same
+ * three stages as anchoring within a note. The fuzzy stage is slow on long
+ * notes, so it only runs on notes that share most of the quote's words.
+ * Comments without a match are left out.
+ */
+export function findMovedAnchors(
+	orphans: AnchoredComment[],
+	notes: Array<{notePath: string; text: string}>,
+	threshold: number
+): MovedAnchor[] {
+	const found: MovedAnchor[] = [];
+	for (const comment of orphans) {
+		const words = getWords(comment.target.exact);
+		const candidates: MovedAnchorCandidate[] = [];
+		for (const {notePath, text} of notes) {
+			const anchor = text.includes(comment.target.exact) || sharesWords(words, text)
+				? resolveAnchor(comment.target, text, threshold)
+				: null;
+			if (anchor) candidates.push(toCandidate(notePath, text, anchor, comment.target));
+		}
+		if (candidates.length === 0) continue;
+
+		candidates.sort((a, b) => a.anchor.stage - b.anchor.stage || a.notePath.localeCompare(b.notePath));
+		found.push({comment, candidates: candidates.slice(0, MAX_CANDIDATES)});
+	}
+	return found;
+}
+
+function toCandidate(notePath: string, text: string, anchor: ResolvedAnchor, target: CommentTarget): MovedAnchorCandidate {
+	return {
+		notePath,
+		anchor,
+		// The quote stays as it was, even when similar text was found
+		target: {...createTarget(text, anchor.from, anchor.to), exact: target.exact},
+		match: text.substring(anchor.from, anchor.to),
+	};
+}
+
+function getWords(text: string): Set<string> {
+	return new Set(normalizeWhitespace(text.toLowerCase()).split(' ').filter(w => w.length >= 3));
+}
+
+function sharesWords(words: Set<string>, text: string): boolean {
+	if (words.size === 0) return false;
+	const lower = text.toLowerCase();
+	let shared = 0;
+	for (const word of words) {
+		if (lower.includes(word)) shared++;
+	}
+	return shared / words.size >= MIN_WORD_OVERLAP;
+}
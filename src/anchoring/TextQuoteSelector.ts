@@ -148,6 +148,19 @@ function computeOverlapScore(expected: string, actual: string): number {
 	return matching / minLen;
 }
 
+const CONTEXT_LENGTH = 50;
+
+/** Describes the text between two offsets so it can be found again after edits. */
+export function createTarget(docText: string, from: number, to: number): CommentTarget {
+	return {
+		exact: docText.substring(from, to),
+		prefix: extractContext(docText, from - CONTEXT_LENGTH, CONTEXT_LENGTH),
+		suffix: extractContext(docText, to, CONTEXT_LENGTH),
+		headingContext: findHeadingContext(docText, from) ?? undefined,
+		lineHint: computeLineNumber(docText, from),
+	};
+}
+
 export function computeLineNumber(text: string, offset: number): number {
 	let line = 0;
 	for (let i = 0; i < offset && i < text.length; i++) {
@@ -0,0 +1,72 @@
+export interface DiffPart {
+	type: 'same' | 'added' | 'removed';
+	text: string;
+}
+
+// Beyond this many token pairs the table gets too large; show a full replacement instead
+const MAX_CELLS = 250000;
+
+/**
+ * Word-level diff of two texts. Whitespace runs are tokens of their own, so
+ * joining the parts of one side gives back that side's text exactly.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+	const a = tokenize(before);
+	const b = tokenize(after);
+
+	if (a.length * b.length > MAX_CELLS) {
+		return mergeParts([
+			{type: 'removed', text: before},
+			{type: 'added', text: after},
+		]);
+	}
+
+	// lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+	const lcs: number[][] = Array.from({length: a.length + 1}, () => new Array<number>(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i]![j] = a[i] === b[j]
+				? lcs[i + 1]![j + 1]! + 1
+				: Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+		}
+	}
+
+	const parts: DiffPart[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			parts.push({type: 'same', text: a[i]!});
+			i++;
+			j++;
+		} else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+			parts.push({type: 'removed', text: a[i]!});
+			i++;
+		} else {
+			parts.push({type: 'added', text: b[j]!});
+			j++;
+		}
+	}
+	while (i < a.length) parts.push({type: 'removed', text: a[i++]!});
+	while (j < b.length) parts.push({type: 'added', text: b[j++]!});
+
+	return mergeParts(parts);
+}
+
+function tokenize(text: string): string[] {
+	return text.split(/(\s+)/).filter(t => t.length > 0);
+}
+
+function mergeParts(parts: DiffPart[]): DiffPart[] {
+	const merged: DiffPart[] = [];
+	for (const part of parts) {
+		if (!part.text) continue;
+		const last = merged[merged.length - 1];
+		if (last && last.type === part.type) {
+			last.text += part.text;
+		} else {
+			merged.push({...part});
+		}
+	}
+	return merged;
+}
@@ -0,0 +1,31 @@
+import type {CommentAuthor, CommentData} from '../types';
+import {isAnchoredComment} from '../types';
+
+export interface CommentVersion {
+	body: string;
+	savedAt: string;
+	author?: CommentAuthor;
+}
+
+/** Every body a comment has had, oldest first, ending with the current one. */
+export function getCommentVersions(c: CommentData): CommentVersion[] {
+	const revisions = c.revisions ?? [];
+	const versions: CommentVersion[] = [{body: revisions[0]?.body ?? c.body, savedAt: c.createdAt, author: c.author}];
+	revisions.forEach((revision, i) => {
+		versions.push({
+			body: revisions[i + 1]?.body ?? c.body,
+			savedAt: revision.editedAt,
+			author: revision.editedBy,
+		});
+	});
+	return versions;
+}
+
+export function isEdited(c: CommentData): boolean {
+	return (c.revisions?.length ?? 0) > 0;
+}
+
+/** Whether there is anything to show in a comment's history: earlier bodies or earlier quotes. */
+export function hasHistory(c: CommentData): boolean {
+	return isEdited(c) || (isAnchoredComment(c) && (c.previousTargets?.length ?? 0) > 0);
+}
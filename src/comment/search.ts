@@ -0,0 +1,101 @@
+import type {CommentData} from '../types';
+import {getTargetText, isReplyComment, isThreadRoot} from '../types';
+
+export interface CommentSearchMatch {
+	notePath: string;
+	rootId: string;
+	commentId: string;
+	field: 'body' | 'reply' | 'quote';
+	quote: string | null;
+	snippet: string;
+	highlights: Array<{from: number; to: number}>;
+}
+
+const SNIPPET_CONTEXT = 40;
+
+export function parseSearchQuery(query: string): string[] {
+	return query.toLowerCase().split(/\s+/).filter(t => t.length > 0);
+}
+
+export function searchComments(notePath: string, comments: CommentData[], terms: string[]): CommentSearchMatch[] {
+	if (terms.length === 0) return [];
+
+	const quotes = new Map<string, string>();
+	for (const c of comments) {
+		if (isThreadRoot(c)) quotes.set(c.id, getTargetText(c));
+	}
+
+	const results: CommentSearchMatch[] = [];
+	for (const c of comments) {
+		const rootId = isReplyComment(c) ? c.parentId : c.id;
+		const quote = quotes.get(rootId) ?? null;
+
+		const bodyMatch = matchText(c.body, terms);
+		if (bodyMatch) {
+			results.push({
+				notePath,
+				rootId,
+				commentId: c.id,
+				field: isReplyComment(c) ? 'reply' : 'body',
+				quote,
+				...bodyMatch,
+			});
+			continue;
+		}
+
+		if (isThreadRoot(c)) {
+			const quoteMatch = matchText(getTargetText(c), terms);
+			if (quoteMatch) {
+				results.push({notePath, rootId, commentId: c.id, field: 'quote', quote, ...quoteMatch});
+			}
+		}
+	}
+	return results;
+}
+
+function matchText(text: string, terms: string[]): {snippet: string; highlights: Array<{from: number; to: number}>} | null {
+	const lower = text.toLowerCase();
+	const positions: Array<{from: number; to: number}> = [];
+	for (const term of terms) {
+		const idx = lower.indexOf(term);
+		if (idx === -1) return null;
+		positions.push({from: idx, to: idx + term.length});
+	}
+	positions.sort((a, b) => a.from - b.from);
+
+	const first = positions[0]!;
+	const start = Math.max(0, first.from - SNIPPET_CONTEXT);
+	const end = Math.min(text.length, Math.max(first.to + SNIPPET_CONTEXT, start + SNIPPET_CONTEXT * 2));
+	const prefix = start > 0 ? '...' : '';
+	const suffix = end < text.length ? '...' : '';
+	const snippet = prefix + text.substring(start, end).replace(/\s+/g, ' ') + suffix;
+
+	// Recompute highlights against the collapsed snippet text
+	const snippetLower = snippet.toLowerCase();
+	const highlights: Array<{from: number; to: number}> = [];
+	for (const term of terms) {
+		let searchFrom = 0;
+		while (searchFrom < snippetLower.length) {
+			const idx = snippetLower.indexOf(term, searchFrom);
+			if (idx === -1) break;
+			highlights.push({from: idx, to: idx + term.length});
+			searchFrom = idx + term.length;
+		}
+	}
+	highlights.sort((a, b) => a.from - b.from);
+
+	return {snippet, highlights: mergeRanges(highlights)};
+}
+
+function mergeRanges(ranges: Array<{from: number; to: number}>): Array<{from: number; to: number}> {
+	const merged: Array<{from: number; to: number}> = [];
+	for (const r of ranges) {
+		const last = merged[merged.length - 1];
+		if (last && r.from <= last.to) {
+			last.to = Math.max(last.to, r.to);
+		} else {
+			merged.push({...r});
+		}
+	}
+	return merged;
+}
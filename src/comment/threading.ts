@@ -1,12 +1,12 @@
-import type {AnchoredComment, CommentData, CommentThread, NoteComment, PanelData, ReplyComment, ResolvedAnchor} from '../types';
-import {isAnchoredComment, isNoteComment, isReplyComment, getRootResolution} from '../types';
+import type {CommentData, CommentFilter, CommentThread, NoteComment, PanelData, ReplyComment, ResolvedAnchor, ThreadRoot} from '../types';
+import {isNoteComment, isThreadRoot, isReplyComment, getAuthorName, getRootResolution} from '../types';
 
 export function getThreads(comments: CommentData[]): CommentThread[] {
 	const replyMap = new Map<string, ReplyComment[]>();
-	const roots: AnchoredComment[] = [];
+	const roots: ThreadRoot[] = [];
 
 	for (const c of comments) {
-		if (isAnchoredComment(c)) {
+		if (isThreadRoot(c)) {
 			roots.push(c);
 		} else if (isReplyComment(c)) {
 			const existing = replyMap.get(c.parentId);
@@ -44,9 +44,10 @@ export function getPanelData(comments: CommentData[]): PanelData {
 
 export function filterPanelData(
 	panelData: PanelData,
-	filter: 'all' | 'open' | 'resolved' | 'active' | 'orphaned',
+	filter: CommentFilter,
 	sortOrder: 'position' | 'created',
-	anchors: Map<string, ResolvedAnchor>
+	anchors: Map<string, ResolvedAnchor>,
+	author: string | null = null
 ): PanelData {
 	let {noteComments} = panelData;
 	let {threads} = panelData;
@@ -66,6 +67,14 @@ export function filterPanelData(
 		noteComments = noteComments.filter(nc => getRootResolution(nc) === 'resolved');
 	}
 
+	if (author !== null) {
+		// A thread counts as authored by someone if they wrote the root or any reply
+		threads = threads.filter(t =>
+			getAuthorName(t.root) === author || t.replies.some(r => getAuthorName(r) === author)
+		);
+		noteComments = noteComments.filter(nc => getAuthorName(nc) === author);
+	}
+
 	if (sortOrder === 'position') {
 		threads.sort((a, b) => {
 			const anchorA = anchors.get(a.root.id);
@@ -81,3 +90,11 @@ export function filterPanelData(
 
 	return {noteComments, threads};
 }
+
+export function collectAuthors(comments: CommentData[]): string[] {
+	const names = new Set<string>();
+	for (const c of comments) {
+		names.add(getAuthorName(c));
+	}
+	return [...names].sort((a, b) => a.localeCompare(b));
+}
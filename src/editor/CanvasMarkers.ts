@@ -0,0 +1,149 @@
+import {setIcon, type TFile, type View} from 'obsidian';
+import type MarginaliaPlugin from '../main';
+import type {CanvasTarget} from '../types';
+import {getRootResolution, isCanvasComment} from '../types';
+import {getCanvasItemText} from '../anchoring/CanvasSelector';
+
+// Obsidian doesn't publish the canvas API, so only the parts used here are described
+interface CanvasItemView {
+	id: string;
+	getData(): Record<string, unknown>;
+	nodeEl?: HTMLElement;
+	labelElement?: {wrapperEl?: HTMLElement};
+}
+
+interface CanvasApi {
+	nodes: Map<string, CanvasItemView>;
+	edges: Map<string, CanvasItemView>;
+	selection: Set<CanvasItemView>;
+	selectOnly(item: CanvasItemView): void;
+	zoomToSelection(): void;
+}
+
+interface MarkerGroup {
+	commentIds: string[];
+	allResolved: boolean;
+}
+
+/** Comment markers on the nodes and edge labels of the active canvas. */
+export class CanvasMarkers {
+	private plugin: MarginaliaPlugin;
+
+	constructor(plugin: MarginaliaPlugin) {
+		this.plugin = plugin;
+	}
+
+	async refreshActiveView(): Promise<void> {
+		const file = this.plugin.app.workspace.getActiveFile();
+		const view = file && this.findCanvasView(file.path);
+		const canvas = view && getCanvas(view);
+		if (!file || !view || !canvas) return;
+
+		const content = await this.plugin.app.vault.read(file);
+		const found = await this.plugin.store.resolveCanvasAnchors(file.path, content);
+		const comments = await this.plugin.store.getComments(file.path);
+
+		for (const marker of Array.from(view.containerEl.querySelectorAll('.marginalia-canvas-marker'))) {
+			marker.remove();
+		}
+		if (!this.plugin.settings.showGutterIcons) return;
+
+		const groups = new Map<string, MarkerGroup>();
+		for (const c of comments) {
+			if (!isCanvasComment(c) || !found.has(c.id)) continue;
+			const resolved = getRootResolution(c) === 'resolved';
+			const existing = groups.get(c.target.id);
+			if (existing) {
+				existing.commentIds.push(c.id);
+				existing.allResolved = existing.allResolved && resolved;
+			} else {
+				groups.set(c.target.id, {commentIds: [c.id], allResolved: resolved});
+			}
+		}
+
+		for (const [itemId, group] of groups) {
+			const item = canvas.nodes.get(itemId) ?? canvas.edges.get(itemId);
+			const hostEl = item?.nodeEl ?? item?.labelElement?.wrapperEl;
+			if (hostEl) hostEl.appendChild(this.createMarker(group));
+		}
+	}
+
+	/** The single node or edge selected in the active canvas, as a comment target. */
+	getSelectedTarget(): CanvasTarget | null {
+		const file = this.plugin.app.workspace.getActiveFile();
+		const view = file && this.findCanvasView(file.path);
+		const canvas = view && getCanvas(view);
+		if (!canvas || canvas.selection.size !== 1) return null;
+
+		const [item] = canvas.selection;
+		if (!item) return null;
+		const type = canvas.nodes.get(item.id) === item ? 'node' : 'edge';
+		return {type, id: item.id, text: getCanvasItemText(item.getData())};
+	}
+
+	/** Selects and zooms to an item of an open canvas. Returns false if it isn't there. */
+	focusItem(canvasPath: string, itemId: string): boolean {
+		const view = this.findCanvasView(canvasPath);
+		const canvas = view && getCanvas(view);
+		const item = canvas && (canvas.nodes.get(itemId) ?? canvas.edges.get(itemId));
+		if (!view || !canvas || !item) return false;
+
+		this.plugin.app.workspace.setActiveLeaf(view.leaf, {focus: true});
+		canvas.selectOnly(item);
+		canvas.zoomToSelection();
+		return true;
+	}
+
+	// Looked up by file rather than by active view, since clicks in the comment panel make it the active view
+	private findCanvasView(path: string): View | null {
+		for (const leaf of this.plugin.app.workspace.getLeavesOfType('canvas')) {
+			if (getViewFile(leaf.view)?.path === path) return leaf.view;
+		}
+		return null;
+	}
+
+	private createMarker(group: MarkerGroup): HTMLElement {
+		const el = document.createElement('span');
+		el.className = 'marginalia-canvas-marker';
+		if (group.allResolved) {
+			el.className += ' marginalia-gutter-resolved';
+		}
+		const count = group.commentIds.length;
+		el.setAttribute('aria-label', `${count} comment${count > 1 ? 's' : ''}`);
+		setIcon(el, group.allResolved ? 'check-circle' : 'message-square');
+
+		if (count > 1) {
+			const badge = document.createElement('span');
+			badge.className = 'marginalia-badge';
+			badge.textContent = String(count);
+			el.appendChild(badge);
+		}
+
+		// Keep the canvas from treating clicks on the marker as selecting or dragging the node
+		el.addEventListener('pointerdown', (e) => e.stopPropagation());
+		el.addEventListener('click', (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			const firstId = group.commentIds[0];
+			if (firstId) this.plugin.scrollPanelToComment(firstId);
+		});
+
+		el.addEventListener('mouseenter', () => {
+			this.plugin.showPopover(el, group.commentIds);
+		});
+		el.addEventListener('mouseleave', () => {
+			this.plugin.hidePopover();
+		});
+
+		return el;
+	}
+}
+
+function getCanvas(view: View): CanvasApi | null {
+	const canvas = (view as unknown as Record<string, unknown>)['canvas'] as CanvasApi | undefined;
+	return canvas?.nodes instanceof Map && canvas.edges instanceof Map ? canvas : null;
+}
+
+function getViewFile(view: View): TFile | null {
+	return (view as unknown as {file?: TFile | null}).file ?? null;
+}
@@ -14,6 +14,9 @@ import type MarginaliaPlugin from '../main';
 
 interface CommentLineInfo {
 	line: number;
+	/** The anchored range, highlighted when highlights are on */
+	from: number;
+	to: number;
 	commentId: string;
 	count: number;
 	allResolved: boolean;
@@ -79,8 +82,23 @@ class CommentIconWidget extends WidgetType {
 function buildDecorations(
 	plugin: MarginaliaPlugin,
 	infos: CommentLineInfo[],
-	doc: { lines: number; line(n: number): { from: number } }
+	doc: { lines: number; length: number; line(n: number): { from: number } }
 ): DecorationSet {
+	const ranges: {from: number; to: number; value: Decoration}[] = [];
+	if (plugin.settings.showGutterIcons) {
+		ranges.push(...buildIconRanges(plugin, infos, doc));
+	}
+	if (plugin.settings.highlightAnchors) {
+		ranges.push(...buildHighlightRanges(infos, doc));
+	}
+	return Decoration.set(ranges, true);
+}
+
+function buildIconRanges(
+	plugin: MarginaliaPlugin,
+	infos: CommentLineInfo[],
+	doc: { lines: number; line(n: number): { from: number } }
+): {from: number; to: number; value: Decoration}[] {
 	// Group by line, collecting all commentIds
 	const byLine = new Map<number, {commentIds: string[]; count: number; allResolved: boolean}>();
 	for (const info of infos) {
@@ -107,8 +125,60 @@ function buildDecorations(
 			value: Decoration.widget({ widget, side: -1 }),
 		});
 	}
+	return ranges;
+}
 
-	return Decoration.set(ranges, true);
+/**
+ * Marks over each anchored range. They are mapped through edits with the
+ * rest of the decorations, so they follow the text until the anchors are
+ * resolved again.
+ */
+function buildHighlightRanges(
+	infos: CommentLineInfo[],
+	doc: { length: number }
+): {from: number; to: number; value: Decoration}[] {
+	const ranges: {from: number; to: number; value: Decoration}[] = [];
+	for (const info of infos) {
+		const to = Math.min(info.to, doc.length);
+		if (info.from < 0 || info.from >= to) continue;
+		ranges.push({
+			from: info.from,
+			to,
+			value: Decoration.mark({
+				class: info.allResolved ? 'marginalia-highlight marginalia-highlight-resolved' : 'marginalia-highlight',
+				attributes: {'data-comment-id': info.commentId},
+			}),
+		});
+	}
+	return ranges;
+}
+
+/** Shows the popover for the comments of a highlight under the mouse. */
+function createHighlightHover(plugin: MarginaliaPlugin): Extension {
+	return EditorView.domEventHandlers({
+		mouseover(event) {
+			const el = getHighlight(event.target);
+			if (!el) return false;
+			// Nested highlights are separate elements; collect every comment the mouse is over
+			const ids: string[] = [];
+			for (let h: HTMLElement | null = el; h; h = getHighlight(h.parentElement)) {
+				const id = h.getAttribute('data-comment-id');
+				if (id && !ids.includes(id)) ids.push(id);
+			}
+			plugin.showPopover(el, ids);
+			return false;
+		},
+		mouseout(event) {
+			if (getHighlight(event.target) && !getHighlight(event.relatedTarget)) {
+				plugin.hidePopover();
+			}
+			return false;
+		},
+	});
+}
+
+function getHighlight(target: EventTarget | null): HTMLElement | null {
+	return target instanceof HTMLElement ? target.closest<HTMLElement>('.marginalia-highlight') : null;
 }
 
 export function createCommentGutter(plugin: MarginaliaPlugin): Extension {
@@ -144,5 +214,5 @@ export function createCommentGutter(plugin: MarginaliaPlugin): Extension {
 		provide: (f) => EditorView.decorations.from(f),
 	});
 
-	return [gutterField, decorationField];
+	return [gutterField, decorationField, createHighlightHover(plugin)];
 }
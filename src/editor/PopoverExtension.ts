@@ -1,6 +1,7 @@
 import type MarginaliaPlugin from '../main';
 import {getRootResolution} from '../types';
 import {getThreads} from '../comment/threading';
+import {renderAuthorBadge} from '../views/authorBadge';
 
 export class CommentPopover {
 	private plugin: MarginaliaPlugin;
@@ -50,6 +51,7 @@ export class CommentPopover {
 			const item = this.popoverEl.createEl('div', {
 				cls: `marginalia-popover-item${resolved ? ' marginalia-popover-resolved' : ''}`,
 			});
+			renderAuthorBadge(item.createDiv({cls: 'marginalia-popover-author'}), thread.root);
 			const bodyPreview = thread.root.body.length > 150
 				? thread.root.body.substring(0, 150) + '...'
 				: thread.root.body;
@@ -14,7 +14,7 @@ export class VaultEventHandler {
 	registerEvents(): void {
 		this.plugin.registerEvent(
 			this.plugin.app.vault.on('rename', (file, oldPath) => {
-				if (!(file instanceof TFile) || file.extension !== 'md') return;
+				if (!(file instanceof TFile)) return;
 				void this.store.handleRename(oldPath, file.path);
 				this.plugin.refreshPanel();
 			})
@@ -22,7 +22,7 @@ export class VaultEventHandler {
 
 		this.plugin.registerEvent(
 			this.plugin.app.vault.on('delete', (file) => {
-				if (!(file instanceof TFile) || file.extension !== 'md') return;
+				if (!(file instanceof TFile)) return;
 				const shouldDelete = this.plugin.settings.orphanHandling === 'delete';
 				void this.store.handleDelete(file.path, shouldDelete);
 				this.plugin.refreshPanel();
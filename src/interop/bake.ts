@@ -0,0 +1,172 @@
+import type {CommentData, CommentThread, NoteComment, ResolvedAnchor, RootComment} from '../types';
+import {getAuthorName, getRootResolution, getTargetText} from '../types';
+import {getPanelData} from '../comment/threading';
+
+export type BakeStyle = 'footnote' | 'callout';
+
+interface Insertion {
+	offset: number;
+	text: string;
+}
+
+/**
+ * Produces a copy of the note text with comments written into it. Resolved
+ * anchors become footnotes at the end of the quoted text, or callouts after
+ * the paragraph that contains it. Note comments and threads whose anchor
+ * could not be resolved go into a section at the top of the note.
+ */
+export function bakeNote(
+	docText: string,
+	comments: CommentData[],
+	anchors: Map<string, ResolvedAnchor>,
+	style: BakeStyle
+): string {
+	const {noteComments, threads} = getPanelData(comments);
+	const placed = threads
+		.filter(t => anchors.has(t.root.id))
+		.sort((a, b) => anchors.get(a.root.id)!.from - anchors.get(b.root.id)!.from);
+	const unplaced = threads.filter(t => !anchors.has(t.root.id));
+
+	const insertions: Insertion[] = [];
+	const footnotes: string[] = [];
+	const fences = findFencedBlocks(docText);
+
+	if (style === 'footnote') {
+		let n = 1;
+		for (const thread of placed) {
+			while (docText.includes(`[^comment-${n}]`)) n++;
+			const label = `comment-${n}`;
+			n++;
+			// A reference inside a code block would become literal code, so place it after the block
+			const to = anchors.get(thread.root.id)!.to;
+			const fence = fences.find(f => to > f.from && to <= f.to);
+			insertions.push(fence
+				? {offset: fence.to, text: `\n\n[^${label}]`}
+				: {offset: to, text: `[^${label}]`});
+			footnotes.push(renderFootnote(label, thread));
+		}
+	} else {
+		for (const thread of placed) {
+			const offset = findParagraphEnd(docText, anchors.get(thread.root.id)!.to, fences);
+			insertions.push({offset, text: '\n\n' + renderCallout(thread).join('\n')});
+		}
+	}
+
+	// Apply from the end so earlier offsets stay valid; stable for equal offsets
+	let body = docText;
+	const ordered = insertions
+		.map((ins, i) => ({...ins, i}))
+		.sort((a, b) => b.offset - a.offset || b.i - a.i);
+	for (const {offset, text} of ordered) {
+		body = body.substring(0, offset) + text + body.substring(offset);
+	}
+
+	if (footnotes.length > 0) {
+		body = body.trimEnd() + '\n\n' + footnotes.join('\n\n') + '\n';
+	}
+
+	const header = renderHeader(noteComments, unplaced);
+	if (header.length === 0) return body;
+
+	const frontmatterEnd = findFrontmatterEnd(body);
+	const before = body.substring(0, frontmatterEnd);
+	const separator = before && !before.endsWith('\n') ? '\n' : '';
+	return before + separator + header.join('\n') + '\n\n' + body.substring(frontmatterEnd);
+}
+
+function renderFootnote(label: string, thread: CommentThread): string {
+	const lines = [`[^${label}]: ${formatHeading(thread.root)}`];
+	for (const line of thread.root.body.split('\n')) {
+		lines.push(line ? `    ${line}` : '');
+	}
+	for (const reply of thread.replies) {
+		lines.push('', `    **${getAuthorName(reply)}** replied:`);
+		for (const line of reply.body.split('\n')) {
+			lines.push(line ? `    ${line}` : '');
+		}
+	}
+	return lines.join('\n');
+}
+
+function renderCallout(thread: CommentThread): string[] {
+	const lines = [`> [!comment] ${formatHeading(thread.root)}`];
+	lines.push(...quoteLines(thread.root.body));
+	for (const reply of thread.replies) {
+		lines.push('>', `> **${getAuthorName(reply)}** replied:`);
+		lines.push(...quoteLines(reply.body));
+	}
+	return lines;
+}
+
+function renderHeader(noteComments: NoteComment[], unplaced: CommentThread[]): string[] {
+	if (noteComments.length === 0 && unplaced.length === 0) return [];
+
+	const lines = ['> [!note] Comments'];
+	for (const nc of noteComments) {
+		lines.push('>', `> ${formatHeading(nc)}`);
+		lines.push(...quoteLines(nc.body));
+	}
+	for (const thread of unplaced) {
+		const exact = getTargetText(thread.root).replace(/\s+/g, ' ');
+		lines.push('>', `> ${formatHeading(thread.root)} on "${exact}" (text not found)`);
+		lines.push(...quoteLines(thread.root.body));
+		for (const reply of thread.replies) {
+			lines.push(`> **${getAuthorName(reply)}** replied:`);
+			lines.push(...quoteLines(reply.body));
+		}
+	}
+	return lines;
+}
+
+function formatHeading(c: RootComment): string {
+	const resolved = getRootResolution(c) === 'resolved' ? ' (resolved)' : '';
+	return `**${getAuthorName(c)}**${resolved}`;
+}
+
+function quoteLines(text: string): string[] {
+	return text.split('\n').map(line => line ? `> ${line}` : '>');
+}
+
+function findFencedBlocks(text: string): Array<{from: number; to: number}> {
+	const blocks: Array<{from: number; to: number}> = [];
+	const fenceRegex = /^(```|~~~)/;
+	let offset = 0;
+	let openAt = -1;
+	let marker = '';
+
+	for (const line of text.split('\n')) {
+		const match = fenceRegex.exec(line.trimStart());
+		if (match) {
+			if (openAt === -1) {
+				openAt = offset;
+				marker = match[1]!;
+			} else if (match[1] === marker) {
+				blocks.push({from: openAt, to: offset + line.length});
+				openAt = -1;
+			}
+		}
+		offset += line.length + 1;
+	}
+	if (openAt !== -1) blocks.push({from: openAt, to: text.length});
+	return blocks;
+}
+
+function findParagraphEnd(text: string, offset: number, fences: Array<{from: number; to: number}>): number {
+	const fence = fences.find(f => offset >= f.from && offset <= f.to);
+	if (fence) return fence.to;
+
+	const blank = text.indexOf('\n\n', offset);
+	const end = blank === -1 ? text.trimEnd().length : blank;
+
+	// A blank line inside a fence that starts mid-paragraph is not a paragraph break
+	const inner = fences.find(f => end > f.from && end <= f.to);
+	return inner ? inner.to : end;
+}
+
+function findFrontmatterEnd(text: string): number {
+	if (!text.startsWith('---\n')) return 0;
+	const close = text.indexOf('\n---', 4);
+	if (close === -1) return 0;
+	const lineEnd = text.indexOf('\n', close + 4);
+	return lineEnd === -1 ? text.length : lineEnd + 1;
+}
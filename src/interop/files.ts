@@ -0,0 +1,21 @@
+import {normalizePath, type Vault} from 'obsidian';
+
+/**
+ * Returns `<basePath>.<extension>`, or `<basePath> 1.<extension>`, `<basePath> 2.<extension>`...
+ * so exports never overwrite an existing file.
+ */
+export async function getAvailablePath(vault: Vault, basePath: string, extension: string): Promise<string> {
+	let candidate = normalizePath(`${basePath}.${extension}`);
+	let n = 1;
+	while (await vault.adapter.exists(candidate)) {
+		candidate = normalizePath(`${basePath} ${n}.${extension}`);
+		n++;
+	}
+	return candidate;
+}
+
+export function stripExtension(path: string): string {
+	const slash = path.lastIndexOf('/');
+	const dot = path.lastIndexOf('.');
+	return dot > slash + 1 ? path.substring(0, dot) : path;
+}
@@ -0,0 +1,191 @@
+import type {AnchoredComment, CommentAuthor, NoteComment, ReplyComment} from '../types';
+import {isRecord} from '../storage/validation';
+import type {ImportedComment} from './importing';
+
+const ID_PREFIX = 'hypothesis-';
+
+export interface HypothesisAnnotation {
+	id: string;
+	uri: string;
+	title: string;
+	text: string;
+	tags: string[];
+	created: string;
+	updated: string;
+	author?: CommentAuthor;
+	references: string[];
+	quote: {exact: string; prefix: string; suffix: string} | null;
+}
+
+export interface HypothesisDocument {
+	uri: string;
+	title: string;
+	count: number;
+}
+
+/**
+ * Accepts the client's "Export annotations" file (`{annotations: [...]}`),
+ * an API search response (`{rows: [...]}`) or a bare array of annotations.
+ */
+export function parseHypothesisExport(json: unknown): HypothesisAnnotation[] {
+	let rows: unknown[] = [];
+	if (Array.isArray(json)) {
+		rows = json;
+	} else if (isRecord(json)) {
+		if (Array.isArray(json.annotations)) rows = json.annotations;
+		else if (Array.isArray(json.rows)) rows = json.rows;
+	}
+
+	const annotations: HypothesisAnnotation[] = [];
+	for (const row of rows) {
+		if (!isRecord(row) || typeof row.id !== 'string' || !row.id) continue;
+
+		const target = Array.isArray(row.target) ? row.target[0] as unknown : undefined;
+		const uri = typeof row.uri === 'string'
+			? row.uri
+			: isRecord(target) && typeof target.source === 'string' ? target.source : '';
+		if (!uri) continue;
+
+		const now = new Date().toISOString();
+		const created = typeof row.created === 'string' ? row.created : now;
+		annotations.push({
+			id: row.id,
+			uri,
+			title: parseTitle(row.document) ?? uri,
+			text: typeof row.text === 'string' ? row.text : '',
+			tags: Array.isArray(row.tags) ? row.tags.filter((t): t is string => typeof t === 'string') : [],
+			created,
+			updated: typeof row.updated === 'string' ? row.updated : created,
+			...parseUser(row),
+			references: Array.isArray(row.references)
+				? row.references.filter((r): r is string => typeof r === 'string')
+				: [],
+			quote: parseQuote(target),
+		});
+	}
+	return annotations;
+}
+
+export function listHypothesisDocuments(annotations: HypothesisAnnotation[]): HypothesisDocument[] {
+	const docs = new Map<string, HypothesisDocument>();
+	for (const a of annotations) {
+		const existing = docs.get(a.uri);
+		if (existing) {
+			existing.count++;
+		} else {
+			docs.set(a.uri, {uri: a.uri, title: a.title, count: 1});
+		}
+	}
+	return [...docs.values()];
+}
+
+/**
+ * Converts annotations for the mapped documents into comments. Hypothesis
+ * threads can nest, but Marginalia threads are flat, so every reply is
+ * attached to the root of its thread (`references[0]`). Replies to page
+ * notes are dropped because note comments cannot hold replies. Comment ids
+ * are derived from the annotation ids, so importing the same export again
+ * skips the annotations that were already imported.
+ */
+export function fromHypothesis(
+	annotations: HypothesisAnnotation[],
+	mapping: Map<string, string>
+): ImportedComment[] {
+	const results: ImportedComment[] = [];
+	const anchoredRoots = new Map<string, {id: string; notePath: string}>();
+
+	for (const a of annotations) {
+		if (a.references.length > 0) continue;
+		const notePath = mapping.get(a.uri);
+		if (!notePath) continue;
+
+		const id = toCommentId(a);
+		const base = {
+			id,
+			body: formatBody(a),
+			...(a.author ? {author: a.author} : {}),
+			resolution: 'open' as const,
+			createdAt: a.created,
+			updatedAt: a.updated,
+		};
+
+		if (a.quote) {
+			const comment: AnchoredComment = {
+				kind: 'anchored',
+				...base,
+				target: {...a.quote},
+				status: 'active',
+			};
+			anchoredRoots.set(a.id, {id, notePath});
+			results.push({notePath, comment});
+		} else {
+			const comment: NoteComment = {kind: 'note', ...base};
+			results.push({notePath, comment});
+		}
+	}
+
+	for (const a of annotations) {
+		const rootRef = a.references[0];
+		if (rootRef === undefined) continue;
+		const root = anchoredRoots.get(rootRef);
+		if (!root) continue;
+
+		const reply: ReplyComment = {
+			id: toCommentId(a),
+			parentId: root.id,
+			body: formatBody(a),
+			...(a.author ? {author: a.author} : {}),
+			createdAt: a.created,
+			updatedAt: a.updated,
+		};
+		results.push({notePath: root.notePath, comment: reply});
+	}
+
+	return results;
+}
+
+function toCommentId(a: HypothesisAnnotation): string {
+	return ID_PREFIX + a.id;
+}
+
+function formatBody(a: HypothesisAnnotation): string {
+	const tags = a.tags
+		.map(t => '#' + t.trim().replace(/\s+/g, '-'))
+		.filter(t => t.length > 1);
+	const text = a.text.trim();
+	if (tags.length === 0) return text;
+	return text ? `${text}\n\n${tags.join(' ')}` : tags.join(' ');
+}
+
+function parseQuote(target: unknown): HypothesisAnnotation['quote'] {
+	if (!isRecord(target) || !Array.isArray(target.selector)) return null;
+	for (const selector of target.selector) {
+		if (isRecord(selector) && selector.type === 'TextQuoteSelector' && typeof selector.exact === 'string') {
+			return {
+				exact: selector.exact,
+				prefix: typeof selector.prefix === 'string' ? selector.prefix : '',
+				suffix: typeof selector.suffix === 'string' ? selector.suffix : '',
+			};
+		}
+	}
+	return null;
+}
+
+function parseTitle(document: unknown): string | null {
+	if (!isRecord(document)) return null;
+	const title = Array.isArray(document.title) ? document.title[0] as unknown : document.title;
+	return typeof title === 'string' && title ? title : null;
+}
+
+function parseUser(row: Record<string, unknown>): {author?: CommentAuthor} {
+	const info = row.user_info;
+	if (isRecord(info) && typeof info.display_name === 'string' && info.display_name) {
+		return {author: {name: info.display_name}};
+	}
+	if (typeof row.user === 'string') {
+		// "acct:username@hypothes.is" -> "username"
+		const match = /^acct:([^@]+)@/.exec(row.user);
+		return {author: {name: match?.[1] ?? row.user}};
+	}
+	return {};
+}
@@ -0,0 +1,79 @@
+import {TFile, type Vault} from 'obsidian';
+import type {CommentData} from '../types';
+import {isAnchoredComment} from '../types';
+import type {CommentStore} from '../storage/CommentStore';
+
+export interface ImportedComment {
+	notePath: string;
+	comment: CommentData;
+}
+
+export interface ImportSummary {
+	added: number;
+	skipped: number;
+	active: number;
+	orphaned: number;
+	orphanedQuotes: Array<{notePath: string; exact: string}>;
+	missingNotes: string[];
+}
+
+/**
+ * Adds imported comments to their notes and resolves the anchored ones
+ * against the current note text so the summary can report which quotes
+ * were found (active) and which were not (orphaned).
+ */
+export async function applyImport(
+	store: CommentStore,
+	vault: Vault,
+	imported: ImportedComment[],
+	threshold: number
+): Promise<ImportSummary> {
+	const summary: ImportSummary = {added: 0, skipped: 0, active: 0, orphaned: 0, orphanedQuotes: [], missingNotes: []};
+
+	const byNote = new Map<string, CommentData[]>();
+	for (const {notePath, comment} of imported) {
+		const list = byNote.get(notePath);
+		if (list) list.push(comment);
+		else byNote.set(notePath, [comment]);
+	}
+
+	for (const [notePath, comments] of byNote) {
+		const file = vault.getAbstractFileByPath(notePath);
+		if (!(file instanceof TFile)) {
+			summary.missingNotes.push(notePath);
+			summary.skipped += comments.length;
+			continue;
+		}
+
+		const added = await store.importComments(notePath, comments);
+		summary.added += added.length;
+		summary.skipped += comments.length - added.length;
+
+		const anchored = added.filter(isAnchoredComment);
+		if (anchored.length === 0) continue;
+
+		const docText = file.extension === 'md' ? await vault.read(file) : '';
+		const anchors = await store.resolveAnchors(notePath, docText, threshold);
+		for (const c of anchored) {
+			if (anchors.has(c.id)) {
+				summary.active++;
+			} else {
+				summary.orphaned++;
+				summary.orphanedQuotes.push({notePath, exact: c.target.exact});
+			}
+		}
+	}
+
+	return summary;
+}
+
+export function formatImportSummary(summary: ImportSummary): string {
+	const lines = [`Imported ${summary.added} comment(s): ${summary.active} active, ${summary.orphaned} orphaned.`];
+	if (summary.skipped > 0) {
+		lines.push(`Skipped ${summary.skipped} comment(s) that already exist or target missing notes.`);
+	}
+	if (summary.missingNotes.length > 0) {
+		lines.push(`Missing notes: ${summary.missingNotes.join(', ')}`);
+	}
+	return lines.join('\n');
+}
@@ -0,0 +1,111 @@
+import type {CommentData, CommentThread, NoteComment, ResolvedAnchor, RootComment} from '../types';
+import {getAuthorName, getRootResolution, getTargetText, isAnchoredComment} from '../types';
+import {getPanelData, filterPanelData} from '../comment/threading';
+
+export interface ReportNote {
+	notePath: string;
+	comments: CommentData[];
+	anchors: Map<string, ResolvedAnchor>;
+}
+
+/**
+ * Builds a standalone Markdown review report. Threads are listed in document
+ * order so the report reads alongside the note; orphaned threads come last.
+ */
+export function buildMarkdownReport(title: string, notes: ReportNote[]): string {
+	const lines: string[] = [
+		`# ${title}`,
+		'',
+		`Exported ${formatTime(new Date().toISOString())}.`,
+		'',
+	];
+
+	for (const note of notes) {
+		const {noteComments, threads} = filterPanelData(getPanelData(note.comments), 'all', 'position', note.anchors);
+		if (noteComments.length === 0 && threads.length === 0) continue;
+
+		lines.push(`## [[${note.notePath}]]`, '');
+		const open = [...noteComments, ...threads.map(t => t.root)].filter(c => getRootResolution(c) === 'open').length;
+		lines.push(`${noteComments.length + threads.length} thread(s), ${open} open.`, '');
+
+		for (const nc of noteComments) {
+			lines.push(...renderNoteComment(nc));
+		}
+		threads.forEach((thread, i) => {
+			lines.push(...renderThread(thread, i + 1));
+		});
+	}
+
+	return lines.join('\n').trimEnd() + '\n';
+}
+
+function renderNoteComment(nc: NoteComment): string[] {
+	return [
+		'### Note comment',
+		'',
+		...renderMeta(nc, null),
+		'',
+		...paragraph(nc.body),
+	];
+}
+
+function renderThread(thread: CommentThread, index: number): string[] {
+	const {root} = thread;
+	const exact = getTargetText(root);
+	const lines: string[] = [
+		`### ${index}. ${truncate(exact.replace(/\s+/g, ' '), 60)}`,
+		'',
+		...quote(exact),
+		'',
+		...renderMeta(root, isAnchoredComment(root) ? root.target.headingContext ?? null : null),
+		'',
+		...paragraph(root.body),
+	];
+
+	if (thread.replies.length > 0) {
+		lines.push('#### Replies', '');
+		for (const reply of thread.replies) {
+			lines.push(`**${getAuthorName(reply)}** · ${formatTime(reply.createdAt)}`, '', ...paragraph(reply.body));
+		}
+	}
+	return lines;
+}
+
+function renderMeta(c: RootComment, heading: string | null): string[] {
+	const state = [getRootResolution(c) === 'resolved' ? 'Resolved' : 'Open'];
+	if (c.kind !== 'note' && c.status === 'orphaned') state.push('orphaned');
+
+	const meta = [
+		`- **Status:** ${state.join(', ')}`,
+		`- **Author:** ${getAuthorName(c)}`,
+	];
+	if (heading) {
+		meta.push(`- **Section:** ${heading.replace(/^#+\s*/, '')}`);
+	}
+	meta.push(`- **Created:** ${formatTime(c.createdAt)}`);
+	if (c.updatedAt !== c.createdAt) {
+		meta.push(`- **Updated:** ${formatTime(c.updatedAt)}`);
+	}
+	return meta;
+}
+
+/**
+ * A comment body followed by one blank line. Blank lines at its edges are
+ * dropped so sections stay evenly spaced; those inside are kept.
+ */
+function paragraph(text: string): string[] {
+	const trimmed = text.replace(/^(?:[ \t]*\n)+/, '').trimEnd();
+	return trimmed ? [trimmed, ''] : [];
+}
+
+function quote(text: string): string[] {
+	return text.split('\n').map(line => line ? `> ${line}` : '>');
+}
+
+function truncate(text: string, max: number): string {
+	return text.length > max ? text.substring(0, max) + '...' : text;
+}
+
+function formatTime(iso: string): string {
+	return new Date(iso).toLocaleString();
+}
@@ -0,0 +1,303 @@
+import type {AnchoredComment, CommentAuthor, CommentData, NoteComment, ReplyComment} from '../types';
+import {getRootResolution, isAnchoredComment, isReplyComment} from '../types';
+import {generateId} from '../storage/CommentStore';
+import {isRecord} from '../storage/validation';
+import type {ImportedComment} from './importing';
+
+// W3C Web Annotation Data Model: https://www.w3.org/TR/annotation-model/
+const ANNO_CONTEXT = 'http://www.w3.org/ns/anno.jsonld';
+const MARGINALIA_NS = 'https://github.com/Tsuuuuuuun/obsidian-marginalia/ns#';
+const ID_PREFIX = 'urn:marginalia:';
+
+interface TextQuoteSelector {
+	type: 'TextQuoteSelector';
+	exact: string;
+	prefix?: string;
+	suffix?: string;
+}
+
+interface SpecificResource {
+	source: string;
+	selector?: TextQuoteSelector | TextQuoteSelector[];
+}
+
+interface TextualBody {
+	type: 'TextualBody';
+	value: string;
+	format?: string;
+	purpose?: string;
+}
+
+export interface WebAnnotation {
+	id: string;
+	type: 'Annotation';
+	motivation: 'commenting' | 'replying';
+	created: string;
+	modified: string;
+	creator?: {type: 'Person'; name: string};
+	body: TextualBody;
+	target: string | SpecificResource;
+	'marginalia:resolution'?: 'open' | 'resolved';
+	'marginalia:heading'?: string;
+}
+
+export interface WebAnnotationCollection {
+	'@context': Array<string | Record<string, string>>;
+	id: string;
+	type: 'AnnotationCollection';
+	label: string;
+	total: number;
+	first: {
+		type: 'AnnotationPage';
+		startIndex: number;
+		items: WebAnnotation[];
+	};
+}
+
+export function toWebAnnotationCollection(
+	notes: Array<{notePath: string; comments: CommentData[]}>,
+	vaultName: string,
+	label: string
+): WebAnnotationCollection {
+	const items: WebAnnotation[] = [];
+	for (const {notePath, comments} of notes) {
+		const source = toSourceIri(vaultName, notePath);
+		for (const c of comments) {
+			items.push(toWebAnnotation(c, source));
+		}
+	}
+
+	return {
+		'@context': [ANNO_CONTEXT, {marginalia: MARGINALIA_NS}],
+		id: `${ID_PREFIX}collection:${Date.now()}`,
+		type: 'AnnotationCollection',
+		label,
+		total: items.length,
+		first: {
+			type: 'AnnotationPage',
+			startIndex: 0,
+			items,
+		},
+	};
+}
+
+function toWebAnnotation(c: CommentData, source: string): WebAnnotation {
+	const annotation: WebAnnotation = {
+		id: ID_PREFIX + c.id,
+		type: 'Annotation',
+		motivation: isReplyComment(c) ? 'replying' : 'commenting',
+		created: c.createdAt,
+		modified: c.updatedAt,
+		body: {type: 'TextualBody', value: c.body, format: 'text/markdown'},
+		target: source,
+	};
+	if (c.author) {
+		annotation.creator = {type: 'Person', name: c.author.name};
+	}
+
+	if (isReplyComment(c)) {
+		annotation.target = ID_PREFIX + c.parentId;
+		return annotation;
+	}
+
+	annotation['marginalia:resolution'] = getRootResolution(c);
+	if (isAnchoredComment(c)) {
+		annotation.target = {
+			source,
+			selector: {
+				type: 'TextQuoteSelector',
+				exact: c.target.exact,
+				prefix: c.target.prefix,
+				suffix: c.target.suffix,
+			},
+		};
+		if (c.target.headingContext) {
+			annotation['marginalia:heading'] = c.target.headingContext;
+		}
+	}
+	return annotation;
+}
+
+export function toSourceIri(vaultName: string, notePath: string): string {
+	return `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodeURIComponent(notePath)}`;
+}
+
+export function fromSourceIri(source: string): string {
+	if (source.startsWith('obsidian://')) {
+		const query = source.substring(source.indexOf('?') + 1);
+		for (const pair of query.split('&')) {
+			const [key, value] = pair.split('=');
+			if (key === 'file' && value !== undefined) {
+				return decodeURIComponent(value);
+			}
+		}
+	}
+	return source.replace(/^\/+/, '');
+}
+
+/**
+ * Parses an AnnotationCollection, AnnotationPage, a bare array or a single
+ * Annotation. Anchored comments are returned as 'active'; the caller decides
+ * the final status by resolving each quote against the note text. Threads
+ * are flat, so a reply to a reply is attached to the root of its thread.
+ */
+export function fromWebAnnotations(json: unknown): ImportedComment[] {
+	const items = extractItems(json);
+
+	// Map foreign annotation ids onto comment ids; keep our own ids on round-trip
+	const idMap = new Map<string, string>();
+	for (const item of items) {
+		if (typeof item.id === 'string') {
+			idMap.set(item.id, item.id.startsWith(ID_PREFIX) ? item.id.substring(ID_PREFIX.length) : generateId());
+		}
+	}
+
+	const roots = new Map<string, string>(); // comment id -> note path
+	const results: ImportedComment[] = [];
+	const replies: Array<{item: Record<string, unknown>; parentId: string}> = [];
+
+	for (const item of items) {
+		const id = (typeof item.id === 'string' ? idMap.get(item.id) : undefined) ?? generateId();
+		const target = Array.isArray(item.target) ? item.target[0] as unknown : item.target;
+
+		if (item.motivation === 'replying' || (typeof target === 'string' && idMap.has(target))) {
+			const parentId = typeof target === 'string' ? idMap.get(target) : undefined;
+			if (parentId) replies.push({item: {...item, id}, parentId});
+			continue;
+		}
+
+		const parsed = parseRoot(item, id, target);
+		if (!parsed) continue;
+		roots.set(id, parsed.notePath);
+		results.push(parsed);
+	}
+
+	const replyParents = new Map(replies.map(r => [r.item.id as string, r.parentId]));
+	for (const {item, parentId: replyTo} of replies) {
+		const parentId = findThreadRoot(replyTo, replyParents);
+		const notePath = roots.get(parentId);
+		if (!notePath) continue;
+		const {createdAt, updatedAt} = parseTimestamps(item);
+		const reply: ReplyComment = {
+			id: item.id as string,
+			parentId,
+			body: parseBody(item.body),
+			...parseCreator(item.creator),
+			createdAt,
+			updatedAt,
+		};
+		results.push({notePath, comment: reply});
+	}
+
+	return results;
+}
+
+/** Follows a chain of replies up to the comment that started the thread. */
+function findThreadRoot(id: string, replyParents: Map<string, string>): string {
+	const seen = new Set<string>();
+	let current = id;
+	let parent = replyParents.get(current);
+	while (parent !== undefined && !seen.has(current)) {
+		seen.add(current);
+		current = parent;
+		parent = replyParents.get(current);
+	}
+	return current;
+}
+
+function extractItems(json: unknown): Array<Record<string, unknown>> {
+	if (Array.isArray(json)) {
+		return json.filter(isRecord);
+	}
+	if (!isRecord(json)) return [];
+
+	if (json.type === 'AnnotationCollection') {
+		const items: Array<Record<string, unknown>> = [];
+		const first = json.first;
+		if (isRecord(first)) items.push(...extractItems(first));
+		else if (Array.isArray(json.items)) items.push(...json.items.filter(isRecord));
+		return items;
+	}
+	if (json.type === 'AnnotationPage' && Array.isArray(json.items)) {
+		return json.items.filter(isRecord);
+	}
+	if (json.type === 'Annotation') return [json];
+	return [];
+}
+
+function parseRoot(item: Record<string, unknown>, id: string, target: unknown): ImportedComment | null {
+	const {createdAt, updatedAt} = parseTimestamps(item);
+	const resolution = item['marginalia:resolution'] === 'resolved' ? 'resolved' : 'open';
+	const body = parseBody(item.body);
+	const creator = parseCreator(item.creator);
+
+	if (typeof target === 'string') {
+		const comment: NoteComment = {
+			kind: 'note', id, body, ...creator, resolution, createdAt, updatedAt,
+		};
+		return {notePath: fromSourceIri(target), comment};
+	}
+
+	if (!isRecord(target) || typeof target.source !== 'string') return null;
+	const notePath = fromSourceIri(target.source);
+
+	const selectors = Array.isArray(target.selector) ? target.selector as unknown[] : [target.selector];
+	const quote = selectors.find(
+		(s): s is Record<string, unknown> => isRecord(s) && s.type === 'TextQuoteSelector' && typeof s.exact === 'string'
+	);
+	if (!quote) {
+		const comment: NoteComment = {
+			kind: 'note', id, body, ...creator, resolution, createdAt, updatedAt,
+		};
+		return {notePath, comment};
+	}
+
+	const heading = item['marginalia:heading'];
+	const comment: AnchoredComment = {
+		kind: 'anchored',
+		id,
+		body,
+		...creator,
+		target: {
+			exact: quote.exact as string,
+			prefix: typeof quote.prefix === 'string' ? quote.prefix : '',
+			suffix: typeof quote.suffix === 'string' ? quote.suffix : '',
+			headingContext: typeof heading === 'string' ? heading : undefined,
+		},
+		status: 'active',
+		resolution,
+		createdAt,
+		updatedAt,
+	};
+	return {notePath, comment};
+}
+
+function parseBody(body: unknown): string {
+	const bodies = Array.isArray(body) ? body as unknown[] : [body];
+	const values: string[] = [];
+	for (const b of bodies) {
+		if (typeof b === 'string') {
+			values.push(b);
+		} else if (isRecord(b) && typeof b.value === 'string' && b.purpose !== 'tagging') {
+			values.push(b.value);
+		}
+	}
+	return values.join('\n\n');
+}
+
+function parseCreator(creator: unknown): {author?: CommentAuthor} {
+	const first = Array.isArray(creator) ? creator[0] as unknown : creator;
+	if (typeof first === 'string' && first) return {author: {name: first}};
+	if (isRecord(first)) {
+		const name = first.name ?? first.nickname;
+		if (typeof name === 'string' && name) return {author: {name}};
+	}
+	return {};
+}
+
+function parseTimestamps(item: Record<string, unknown>): {createdAt: string; updatedAt: string} {
+	const now = new Date().toISOString();
+	const createdAt = typeof item.created === 'string' ? item.created : now;
+	const updatedAt = typeof item.modified === 'string' ? item.modified : createdAt;
+	return {createdAt, updatedAt};
+}
@@ -1,28 +1,55 @@
-import {Editor, MarkdownView, normalizePath, Plugin} from 'obsidian';
-import {DEFAULT_SETTINGS, MarginaliaSettings, MarginaliaSettingTab} from "./settings";
+import {Editor, FileView, MarkdownView, Notice, Plugin, TFile, TFolder} from 'obsidian';
+import {DEFAULT_SETTINGS, getStorage, MarginaliaSettings, MarginaliaSettingTab} from "./settings";
 import {CommentStore} from "./storage/CommentStore";
 import {VaultEventHandler} from "./events/VaultEventHandler";
-import {resolveAnchor, findHeadingContext, extractContext} from "./anchoring/TextQuoteSelector";
+import {resolveAnchor, createTarget} from "./anchoring/TextQuoteSelector";
+import {findMovedAnchors} from "./anchoring/MovedAnchorFinder";
 import {CommentPopover} from "./editor/PopoverExtension";
 import {createCommentGutter, updateCommentPositions} from "./editor/GutterExtension";
 import {ReadingGutter} from "./editor/ReadingGutter";
+import {CanvasMarkers} from "./editor/CanvasMarkers";
 import {CommentPanelView, VIEW_TYPE_COMMENT_PANEL} from "./views/CommentPanelView";
+import {AllCommentsView, VIEW_TYPE_ALL_COMMENTS} from "./views/AllCommentsView";
+import {TrashView, VIEW_TYPE_TRASH} from "./views/TrashView";
 import {CommentModal} from "./views/CommentModal";
-import type {CommentData, CommentTarget, ResolvedAnchor} from "./types";
-import {getRootResolution, isRootComment} from "./types";
+import {CommentSearchModal} from "./views/CommentSearchModal";
+import {VaultItemSuggestModal} from "./views/VaultItemSuggestModal";
+import {HypothesisImportModal} from "./views/HypothesisImportModal";
+import {ImportReportModal} from "./views/ImportReportModal";
+import {RecoveryModal} from "./views/RecoveryModal";
+import {StorageCheckModal} from "./views/StorageCheckModal";
+import {MovedAnchorsModal} from "./views/MovedAnchorsModal";
+import {PassphraseModal} from "./views/PassphraseModal";
+import {fromWebAnnotations, toWebAnnotationCollection} from "./interop/webAnnotation";
+import {applyImport, formatImportSummary, type ImportedComment, type ImportSummary} from "./interop/importing";
+import {fromHypothesis, listHypothesisDocuments, parseHypothesisExport} from "./interop/hypothesis";
+import {getAvailablePath, stripExtension} from "./interop/files";
+import {buildMarkdownReport, type ReportNote} from "./interop/markdownReport";
+import {bakeNote, type BakeStyle} from "./interop/bake";
+import type {CanvasComment, CanvasTarget, CommentAuthor, CommentData, ResolvedAnchor, TrashEntry} from "./types";
+import {getRootResolution, isAnchoredComment, isCanvasComment, isReplyComment, isRootComment} from "./types";
 import {findNavigationTarget} from "./comment/navigation";
 import type {Extension} from "@codemirror/state";
 
+// Open notes are checked often, every other cached note only now and then
+const SYNC_CHECK_INTERVAL = 2000;
+const FULL_SYNC_CHECK_INTERVAL = 60 * 1000;
+const TRASH_PURGE_INTERVAL = 60 * 60 * 1000;
+
 export default class MarginaliaPlugin extends Plugin {
 	settings: MarginaliaSettings;
 	store: CommentStore;
 	private popover: CommentPopover;
 	private gutterExtension: Extension;
 	private readingGutter: ReadingGutter;
+	private canvasMarkers: CanvasMarkers;
 	private resolveDebounceTimer: ReturnType<typeof setTimeout> | null = null;
 	private cachedAnchors: Map<string, ResolvedAnchor> = new Map();
 	private cachedComments: CommentData[] = [];
 	private cachedFilePath: string | null = null;
+	private syncing = false;
+	// Set after a failed check for outside changes, so the failure is reported once
+	private syncFailed = false;
 
 	getCachedAnchors(): Map<string, ResolvedAnchor> {
 		return this.cachedAnchors;
@@ -39,13 +66,10 @@ export default class MarginaliaPlugin extends Plugin {
 	async onload() {
 		await this.loadSettings();
 
-		const basePath = normalizePath(
-			this.settings.storageLocation === 'vault'
-				? '.marginalia'
-				: `${this.manifest.dir ?? ''}/comments`
-		);
-		this.store = new CommentStore(this.app.vault, basePath);
+		const {basePath, layout} = getStorage(this.settings.storageLocation, this.manifest.dir ?? '');
+		this.store = new CommentStore(this.app.vault, basePath, layout);
 		this.store.setAnchorResolver(resolveAnchor);
+		this.store.setAuthorProvider(() => this.getAuthor());
 		await this.store.initialize();
 
 		this.popover = new CommentPopover(this);
@@ -54,6 +78,8 @@ export default class MarginaliaPlugin extends Plugin {
 
 		// Register side panel view
 		this.registerView(VIEW_TYPE_COMMENT_PANEL, (leaf) => new CommentPanelView(leaf, this));
+		this.registerView(VIEW_TYPE_ALL_COMMENTS, (leaf) => new AllCommentsView(leaf, this));
+		this.registerView(VIEW_TYPE_TRASH, (leaf) => new TrashView(leaf, this));
 
 		// Register CM6 gutter extension
 		this.gutterExtension = createCommentGutter(this);
@@ -65,6 +91,8 @@ export default class MarginaliaPlugin extends Plugin {
 			this.readingGutter.processSection(el, ctx);
 		});
 
+		this.canvasMarkers = new CanvasMarkers(this);
+
 		// Commands
 		this.addCommand({
 			id: 'add-comment',
@@ -87,6 +115,30 @@ export default class MarginaliaPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'open-all-comments',
+			name: 'Open all comments view',
+			callback: () => {
+				void this.activateView(VIEW_TYPE_ALL_COMMENTS);
+			},
+		});
+
+		this.addCommand({
+			id: 'open-comment-trash',
+			name: 'Open comment trash',
+			callback: () => {
+				void this.activateView(VIEW_TYPE_TRASH);
+			},
+		});
+
+		this.addCommand({
+			id: 'search-comments',
+			name: 'Search comments',
+			callback: () => {
+				void this.openCommentSearch();
+			},
+		});
+
 		this.addCommand({
 			id: 'next-comment',
 			name: 'Go to next comment',
@@ -107,18 +159,213 @@ export default class MarginaliaPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'add-canvas-comment',
+			name: 'Add comment to selected canvas item',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				const target = this.canvasMarkers.getSelectedTarget();
+				if (!file || !target) return false;
+				if (checking) return true;
+				this.addCanvasComment(file.path, target);
+				return true;
+			},
+		});
+
 		this.addCommand({
 			id: 'add-note-comment',
 			name: 'Add note comment',
 			checkCallback: (checking) => {
 				const file = this.app.workspace.getActiveFile();
-				if (!file || file.extension !== 'md') return false;
+				if (!file) return false;
 				if (checking) return true;
 				this.addNoteComment(file.path);
 				return true;
 			},
 		});
 
+		this.addCommand({
+			id: 'find-moved-anchors',
+			name: 'Find moved anchors',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') return false;
+				if (checking) return true;
+				void this.findMovedAnchors(file.path);
+				return true;
+			},
+		});
+
+		for (const style of ['footnote', 'callout'] as const) {
+			this.addCommand({
+				id: `bake-note-${style}s`,
+				name: `Create annotated copy with ${style}s`,
+				checkCallback: (checking) => {
+					const file = this.app.workspace.getActiveFile();
+					if (!file || file.extension !== 'md') return false;
+					if (checking) return true;
+					void this.bakeNoteCopy(file, style);
+					return true;
+				},
+			});
+		}
+
+		this.addCommand({
+			id: 'export-note-web-annotations',
+			name: 'Export note comments as web annotations',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (checking) return true;
+				void this.exportWebAnnotations([file.path], `${stripExtension(file.path)} annotations`, file.basename);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'export-vault-web-annotations',
+			name: 'Export all comments as web annotations',
+			callback: () => {
+				void this.exportWebAnnotations(this.store.getAnnotatedNotePaths(), 'Marginalia annotations', this.app.vault.getName());
+			},
+		});
+
+		this.addCommand({
+			id: 'import-web-annotations',
+			name: 'Import web annotations',
+			callback: () => {
+				const files = this.app.vault.getFiles().filter(f => f.extension === 'jsonld' || f.extension === 'json');
+				new VaultItemSuggestModal(this.app, files, 'Choose a web annotation file to import...', (file) => {
+					void this.importFromFile(file, fromWebAnnotations);
+				}).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'import-hypothesis',
+			name: 'Import Hypothesis annotations',
+			callback: () => {
+				const files = this.app.vault.getFiles().filter(f => f.extension === 'json');
+				new VaultItemSuggestModal(this.app, files, 'Choose a Hypothesis export file...', (file) => {
+					void this.importHypothesisFile(file);
+				}).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'export-note-markdown-report',
+			name: 'Export comments as Markdown',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (checking) return true;
+				void this.exportMarkdownReport([file.path], `${stripExtension(file.path)} comments`, `Comments on ${file.basename}`);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'export-folder-markdown-report',
+			name: 'Export folder comments as Markdown',
+			callback: () => {
+				const folders = this.app.vault.getAllLoadedFiles().filter((f): f is TFolder => f instanceof TFolder);
+				new VaultItemSuggestModal(this.app, folders, 'Choose a folder...', (folder) => {
+					void this.exportFolderReport(folder);
+				}).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'undo-comment-action',
+			name: 'Undo last comment action',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.store.canUndo(file.path)) return false;
+				if (checking) return true;
+				void this.undoCommentAction(file.path);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'redo-comment-action',
+			name: 'Redo last comment action',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.store.canRedo(file.path)) return false;
+				if (checking) return true;
+				void this.redoCommentAction(file.path);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'merge-conflict-copies',
+			name: 'Merge conflicting comment files',
+			callback: () => {
+				void this.mergeConflictCopies();
+			},
+		});
+
+		this.addCommand({
+			id: 'check-comment-storage',
+			name: 'Check comment storage',
+			callback: () => {
+				void this.openStorageCheck();
+			},
+		});
+
+		this.addCommand({
+			id: 'unlock-comments',
+			name: 'Unlock encrypted comments',
+			checkCallback: (checking) => {
+				if (!this.store.isLocked) return false;
+				if (!checking) this.promptUnlock();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'lock-comments',
+			name: 'Lock encrypted comments',
+			checkCallback: (checking) => {
+				if (!this.store.isEncrypted || this.store.isLocked) return false;
+				if (!checking) void this.lockComments();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'recover-quarantined-comments',
+			name: 'Recover quarantined comments',
+			callback: () => {
+				void this.openRecovery();
+			},
+		});
+
+		this.registerEvent(
+			this.app.workspace.on('file-menu', (menu, file) => {
+				if (file instanceof TFile) {
+					menu.addItem((item) => {
+						item.setTitle('Add note comment')
+							.setIcon('message-square-plus')
+							.onClick(() => {
+								this.addNoteComment(file.path);
+							});
+					});
+					return;
+				}
+				if (!(file instanceof TFolder)) return;
+				menu.addItem((item) => {
+					item.setTitle('Export comments as Markdown')
+						.setIcon('file-output')
+						.onClick(() => {
+							void this.exportFolderReport(file);
+						});
+				});
+			})
+		);
+
 		// Context menu
 		this.registerEvent(
 			this.app.workspace.on('editor-menu', (menu, editor, view) => {
@@ -156,10 +403,25 @@ export default class MarginaliaPlugin extends Plugin {
 			this.app.vault.on('modify', (file) => {
 				if (file.path.endsWith('.md')) {
 					this.scheduleResolve(file.path);
+				} else if (file.path.endsWith('.canvas') && file.path === this.app.workspace.getActiveFile()?.path) {
+					void this.canvasMarkers.refreshActiveView();
 				}
 			})
 		);
 
+		await this.purgeTrash();
+		this.registerInterval(window.setInterval(() => {
+			void this.purgeTrash();
+		}, TRASH_PURGE_INTERVAL));
+
+		// Vault events don't fire for the storage folder, so poll it for changes from sync or git
+		this.registerInterval(window.setInterval(() => {
+			void this.syncFromDisk(this.getOpenNotePaths());
+		}, SYNC_CHECK_INTERVAL));
+		this.registerInterval(window.setInterval(() => {
+			void this.syncFromDisk();
+		}, FULL_SYNC_CHECK_INTERVAL));
+
 		// Update gutter on active leaf change
 		this.registerEvent(
 			this.app.workspace.on('active-leaf-change', () => {
@@ -189,6 +451,129 @@ export default class MarginaliaPlugin extends Plugin {
 				void view.refresh();
 			}
 		}
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_ALL_COMMENTS)) {
+			const view = leaf.view;
+			if (view instanceof AllCommentsView) {
+				view.markStale();
+			}
+		}
+		this.refreshTrashView();
+	}
+
+	refreshTrashView(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_TRASH)) {
+			const view = leaf.view;
+			if (view instanceof TrashView) {
+				view.refresh();
+			}
+		}
+	}
+
+	/** Removes trashed comments older than the retention period. */
+	async purgeTrash(): Promise<void> {
+		const days = this.settings.trashRetentionDays;
+		if (days > 0 && (await this.store.trash.purgeOlderThan(days)) > 0) {
+			this.refreshTrashView();
+		}
+	}
+
+	/**
+	 * Puts trashed comments back into their note and resolves their anchors
+	 * against the current text, so comments whose text is gone come back orphaned.
+	 */
+	async restoreTrashEntry(entry: TrashEntry): Promise<void> {
+		const [first] = entry.comments;
+		if (first && isReplyComment(first)) {
+			const comments = await this.store.getComments(entry.notePath);
+			if (!comments.some(c => c.id === first.parentId)) {
+				new Notice('The thread this reply belonged to no longer exists.');
+				return;
+			}
+		}
+
+		let summary;
+		try {
+			summary = await this.runImport(entry.comments.map(comment => ({notePath: entry.notePath, comment})));
+		} catch (e) {
+			// The entry stays in the trash, so restoring can be tried again
+			new Notice(`Could not restore the comment: ${e instanceof Error ? e.message : String(e)}`);
+			return;
+		}
+		if (summary.missingNotes.length > 0) {
+			new Notice(`Cannot restore: ${entry.notePath} no longer exists.`);
+			return;
+		}
+		await this.store.trash.remove(entry.id);
+		this.refreshTrashView();
+
+		const orphaned = summary.orphaned > 0 ? ` ${summary.orphaned} could not find their text and are orphaned.` : '';
+		new Notice(`Restored ${summary.added} comment(s) to ${entry.notePath}.${orphaned}`);
+	}
+
+	private async syncFromDisk(notePaths?: ReadonlySet<string>): Promise<void> {
+		if (this.syncing) return;
+		this.syncing = true;
+		try {
+			if (await this.store.syncFromDisk(notePaths)) {
+				this.refreshPanel();
+				this.updateGutterEffects();
+			}
+			this.syncFailed = false;
+		} catch (e) {
+			// This runs every few seconds; tell the user once until it works again
+			if (!this.syncFailed) {
+				this.syncFailed = true;
+				new Notice(`Could not check comment files for outside changes: ${e instanceof Error ? e.message : String(e)}`);
+			}
+		} finally {
+			this.syncing = false;
+		}
+	}
+
+	private getOpenNotePaths(): Set<string> {
+		const paths = new Set<string>();
+		this.app.workspace.iterateAllLeaves((leaf) => {
+			if (leaf.view instanceof FileView && leaf.view.file) paths.add(leaf.view.file.path);
+		});
+		return paths;
+	}
+
+	async undoCommentAction(notePath: string): Promise<void> {
+		const label = await this.store.undo(notePath);
+		if (!label) return;
+		new Notice(`Undone: ${label.toLowerCase()}`);
+		this.refreshPanel();
+		this.updateGutterEffects();
+	}
+
+	async redoCommentAction(notePath: string): Promise<void> {
+		const label = await this.store.redo(notePath);
+		if (!label) return;
+		new Notice(`Redone: ${label.toLowerCase()}`);
+		this.refreshPanel();
+		this.updateGutterEffects();
+	}
+
+	/**
+	 * Confirms a deletion with a notice that can undo it. Undo restores this
+	 * comment from the trash rather than undoing the latest action, which may
+	 * be a later edit by the time the button is clicked.
+	 */
+	showDeletedNotice(notePath: string, commentId: string): void {
+		const message = document.createDocumentFragment();
+		message.appendText('Comment deleted.');
+		const undoBtn = message.createEl('button', {text: 'Undo', cls: 'marginalia-notice-undo'});
+		const notice = new Notice(message, 8000);
+		this.refreshTrashView();
+		undoBtn.addEventListener('click', () => {
+			notice.hide();
+			const entry = this.store.trash.getEntries().find(e => e.notePath === notePath && e.id === commentId);
+			if (!entry) {
+				new Notice('The comment is no longer in the trash.');
+				return;
+			}
+			void this.restoreTrashEntry(entry);
+		});
 	}
 
 	updateGutterEffects(): void {
@@ -218,16 +603,54 @@ export default class MarginaliaPlugin extends Plugin {
 		});
 	}
 
-	showPopover(anchor: HTMLElement, commentIds: string[]): void {
-		if (this.settings.showGutterIcons) {
-			void this.popover?.show(anchor, commentIds);
+	async openComment(notePath: string, commentId: string): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		if (!(file instanceof TFile)) return;
+
+		await this.app.workspace.getLeaf(false).openFile(file);
+
+		const mdView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (mdView && mdView.file?.path === notePath && mdView.getMode() === 'source') {
+			const editor = mdView.editor;
+			const anchors = await this.store.resolveAnchors(notePath, editor.getValue(), this.settings.fuzzyMatchThreshold);
+			const anchor = anchors.get(commentId);
+			if (anchor) {
+				const pos = editor.offsetToPos(anchor.from);
+				editor.setCursor(pos);
+				editor.scrollIntoView(
+					{from: pos, to: editor.offsetToPos(anchor.to)},
+					true
+				);
+			}
+		} else if (file.extension === 'canvas') {
+			const comment = (await this.store.getComments(notePath)).find(c => c.id === commentId);
+			if (comment && isCanvasComment(comment)) this.focusCanvasComment(notePath, comment);
 		}
+
+		this.scrollPanelToComment(commentId);
+	}
+
+	/** Selects the node or edge a comment is on, if the active canvas still has it. */
+	focusCanvasComment(canvasPath: string, comment: CanvasComment): void {
+		if (!this.canvasMarkers.focusItem(canvasPath, comment.target.id)) {
+			new Notice('This canvas item no longer exists.');
+		}
+	}
+
+	showPopover(anchor: HTMLElement, commentIds: string[]): void {
+		void this.popover?.show(anchor, commentIds);
 	}
 
 	hidePopover(): void {
 		this.popover?.scheduleHide();
 	}
 
+	getAuthor(): CommentAuthor | undefined {
+		const name = this.settings.authorName.trim();
+		if (!name) return undefined;
+		return this.settings.authorColor ? {name, color: this.settings.authorColor} : {name};
+	}
+
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData() as Partial<MarginaliaSettings>);
 	}
@@ -236,42 +659,334 @@ export default class MarginaliaPlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 
+	/** Asks for the passphrase to read encrypted comments, and shows them once it is right. */
+	promptUnlock(): void {
+		new PassphraseModal(this.app, 'Unlock encrypted comments', (passphrase) => {
+			void this.store.unlock(passphrase).then((unlocked) => {
+				if (!unlocked) {
+					new Notice('Wrong passphrase.');
+					return;
+				}
+				new Notice('Comments unlocked.');
+				this.refreshPanel();
+				void this.updateGutterForActiveFile();
+			}, (e: unknown) => {
+				new Notice(`Could not unlock comments: ${e instanceof Error ? e.message : String(e)}`);
+			});
+		}).open();
+	}
+
+	private async lockComments(): Promise<void> {
+		await this.store.lock();
+		new Notice('Comments locked.');
+		this.refreshPanel();
+		await this.updateGutterForActiveFile();
+	}
+
+	/** Commands that read or write comments ask for the passphrase first while comments are locked. */
+	private ensureUnlocked(): boolean {
+		if (!this.store.isLocked) return true;
+		this.promptUnlock();
+		return false;
+	}
+
 	private addCommentFromSelection(editor: Editor, view: MarkdownView): void {
 		const selectedText = editor.getSelection();
 		if (!selectedText || !view.file) return;
+		if (!this.ensureUnlocked()) return;
 
-		const cursor = editor.getCursor('from');
-		const docText = editor.getValue();
-		const offset = editor.posToOffset(cursor);
-
-		const target: CommentTarget = {
-			exact: selectedText,
-			prefix: extractContext(docText, offset - 50, 50),
-			suffix: extractContext(docText, offset + selectedText.length, 50),
-			headingContext: findHeadingContext(docText, offset) ?? undefined,
-			lineHint: cursor.line,
-		};
+		const offset = editor.posToOffset(editor.getCursor('from'));
+		const target = createTarget(editor.getValue(), offset, offset + selectedText.length);
 
 		const filePath = view.file.path;
 
-		new CommentModal(this.app, (body) => {
-			void this.store.addComment(filePath, body, target).then(() => {
-				void this.updateGutterForActiveFile();
-				this.refreshPanel();
+		this.openNewCommentModal('Add comment', (body) => this.store.addComment(filePath, body, target), () => {
+			void this.updateGutterForActiveFile();
+			this.refreshPanel();
+		});
+	}
+
+	private addCanvasComment(filePath: string, target: CanvasTarget): void {
+		if (!this.ensureUnlocked()) return;
+		this.openNewCommentModal('Add comment', (body) => this.store.addCanvasComment(filePath, body, target), () => {
+			void this.canvasMarkers.refreshActiveView();
+			this.refreshPanel();
+		});
+	}
+
+	private addNoteComment(filePath: string): void {
+		if (!this.ensureUnlocked()) return;
+		this.openNewCommentModal('Add note comment', (body) => this.store.addNoteComment(filePath, body), () => {
+			this.refreshPanel();
+		});
+	}
+
+	/**
+	 * Asks for the body of a new comment and saves it. If saving fails (the
+	 * comments are locked, or were written by a newer version), the modal
+	 * opens again with the text typed so far, so it can be saved later.
+	 */
+	openNewCommentModal(title: string, save: (body: string) => Promise<unknown>, onSaved: () => void, body?: string): void {
+		new CommentModal(this.app, (typed) => {
+			save(typed).then(onSaved, (e: unknown) => {
+				new Notice(`Could not save the comment: ${e instanceof Error ? e.message : String(e)}`);
+				this.openNewCommentModal(title, save, onSaved, typed);
 			});
+		}, body, title).open();
+	}
+
+	/**
+	 * Searches the other notes for the text of a note's orphaned comments
+	 * (or only those in `commentIds`) and offers to move each thread there.
+	 */
+	async findMovedAnchors(notePath: string, commentIds?: string[]): Promise<void> {
+		if (!this.ensureUnlocked()) return;
+		const orphans = (await this.store.getComments(notePath))
+			.filter(isAnchoredComment)
+			.filter(c => c.status === 'orphaned' && (!commentIds || commentIds.includes(c.id)));
+		if (orphans.length === 0) {
+			new Notice('This note has no orphaned comments.');
+			return;
+		}
+
+		const notes: Array<{notePath: string; text: string}> = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (file.path === notePath) continue;
+			notes.push({notePath: file.path, text: await this.app.vault.cachedRead(file)});
+		}
+		const found = findMovedAnchors(orphans, notes, this.settings.fuzzyMatchThreshold);
+
+		new MovedAnchorsModal(this.app, notePath, found, async (moved, candidate) => {
+			try {
+				if (!await this.store.moveThread(notePath, moved.comment.id, candidate.notePath, candidate.target)) {
+					new Notice('The comment no longer exists.');
+					return false;
+				}
+			} catch (e) {
+				new Notice(`Could not move the comment: ${e instanceof Error ? e.message : String(e)}`);
+				return false;
+			}
+			new Notice(`Moved the comment to ${candidate.notePath}.`);
+			this.refreshPanel();
+			this.updateGutterEffects();
+			return true;
 		}).open();
 	}
 
-	private addNoteComment(filePath: string): void {
-		new CommentModal(this.app, (body) => {
-			void this.store.addNoteComment(filePath, body).then(() => {
-				this.refreshPanel();
+	private async openCommentSearch(): Promise<void> {
+		if (!this.ensureUnlocked()) return;
+		const notes: Array<{notePath: string; comments: CommentData[]}> = [];
+		for (const notePath of this.store.getAnnotatedNotePaths()) {
+			const comments = await this.store.getComments(notePath);
+			if (comments.length > 0) notes.push({notePath, comments});
+		}
+		new CommentSearchModal(this, notes).open();
+	}
+
+	private async exportWebAnnotations(notePaths: string[], basePath: string, label: string): Promise<void> {
+		if (!this.ensureUnlocked()) return;
+		const notes = await this.loadReportNotes(notePaths);
+		if (notes.length === 0) {
+			new Notice('No comments to export.');
+			return;
+		}
+
+		const collection = toWebAnnotationCollection(notes, this.app.vault.getName(), label);
+		const path = await getAvailablePath(this.app.vault, basePath, 'jsonld');
+		await this.app.vault.create(path, JSON.stringify(collection, null, 2));
+		new Notice(`Exported ${collection.total} annotation(s) to ${path}.`);
+	}
+
+	private async exportFolderReport(folder: TFolder): Promise<void> {
+		const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+		const notePaths = this.store.getAnnotatedNotePaths().filter(p => p.startsWith(prefix));
+		const name = folder.isRoot() ? this.app.vault.getName() : folder.name;
+		await this.exportMarkdownReport(notePaths, `${prefix}${name} comments`, `Comments in ${name}`);
+	}
+
+	private async exportMarkdownReport(notePaths: string[], basePath: string, title: string): Promise<void> {
+		if (!this.ensureUnlocked()) return;
+		const notes = await this.loadReportNotes(notePaths);
+		if (notes.length === 0) {
+			new Notice('No comments to export.');
+			return;
+		}
+
+		const path = await getAvailablePath(this.app.vault, basePath, 'md');
+		const file = await this.app.vault.create(path, buildMarkdownReport(title, notes));
+		new Notice(`Exported comments to ${path}.`);
+		await this.app.workspace.getLeaf(true).openFile(file);
+	}
+
+	private async bakeNoteCopy(file: TFile, style: BakeStyle): Promise<void> {
+		if (!this.ensureUnlocked()) return;
+		const comments = await this.store.getComments(file.path);
+		if (comments.length === 0) {
+			new Notice('This note has no comments.');
+			return;
+		}
+
+		const docText = await this.app.vault.read(file);
+		const anchors = await this.store.resolveAnchors(file.path, docText, this.settings.fuzzyMatchThreshold);
+		const path = await getAvailablePath(this.app.vault, `${stripExtension(file.path)} (annotated)`, 'md');
+		const copy = await this.app.vault.create(path, bakeNote(docText, comments, anchors, style));
+		new Notice(`Created annotated copy at ${path}.`);
+		await this.app.workspace.getLeaf(true).openFile(copy);
+	}
+
+	/**
+	 * Loads the comments of each note, with anchors resolved against the
+	 * current note text. Notes without comments are left out.
+	 */
+	private async loadReportNotes(notePaths: string[]): Promise<ReportNote[]> {
+		const notes: ReportNote[] = [];
+		for (const notePath of [...notePaths].sort((a, b) => a.localeCompare(b))) {
+			const comments = await this.store.getComments(notePath);
+			if (comments.length === 0) continue;
+
+			let anchors = new Map<string, ResolvedAnchor>();
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (file instanceof TFile && file.extension === 'md') {
+				const docText = await this.app.vault.cachedRead(file);
+				anchors = await this.store.resolveAnchors(notePath, docText, this.settings.fuzzyMatchThreshold);
+			}
+			notes.push({notePath, comments, anchors});
+		}
+		return notes;
+	}
+
+	private async importFromFile(file: TFile, parse: (json: unknown) => ImportedComment[]): Promise<void> {
+		if (!this.ensureUnlocked()) return;
+		const json = await this.readJsonFile(file);
+		if (json === undefined) return;
+		const imported = parse(json);
+		if (imported.length === 0) {
+			new Notice('No annotations found in this file.');
+			return;
+		}
+
+		let summary;
+		try {
+			summary = await this.runImport(imported);
+		} catch (e) {
+			new Notice(`Import failed: ${e instanceof Error ? e.message : String(e)}`);
+			return;
+		}
+		new Notice(formatImportSummary(summary));
+	}
+
+	private async importHypothesisFile(file: TFile): Promise<void> {
+		if (!this.ensureUnlocked()) return;
+		const json = await this.readJsonFile(file);
+		if (json === undefined) return;
+		const annotations = parseHypothesisExport(json);
+		if (annotations.length === 0) {
+			new Notice('No Hypothesis annotations found in this file.');
+			return;
+		}
+
+		new HypothesisImportModal(this.app, listHypothesisDocuments(annotations), (mapping) => {
+			const imported = fromHypothesis(annotations, mapping);
+			if (imported.length === 0) {
+				new Notice('No annotations were mapped to a note.');
+				return;
+			}
+			this.runImport(imported).then((summary) => {
+				new ImportReportModal(this.app, summary).open();
+			}, (e: unknown) => {
+				new Notice(`Import failed: ${e instanceof Error ? e.message : String(e)}`);
 			});
-		}, undefined, 'Add note comment').open();
+		}).open();
+	}
+
+	private async mergeConflictCopies(): Promise<void> {
+		if (!this.ensureUnlocked()) return;
+		const {merged, failed} = await this.store.mergeConflictCopies();
+		if (merged === 0 && failed.length === 0) {
+			new Notice('No conflicting comment files found.');
+			return;
+		}
+
+		const lines = [`Merged ${merged} conflicting comment file(s).`];
+		if (failed.length > 0) {
+			lines.push(`Could not merge: ${failed.join(', ')}`);
+		}
+		new Notice(lines.join('\n'));
+		this.refreshPanel();
+		this.updateGutterEffects();
+	}
+
+	private async openRecovery(): Promise<void> {
+		if (!this.ensureUnlocked()) return;
+		const entries = await this.store.listQuarantined();
+		new RecoveryModal(this.app, entries, {
+			restore: async (entry, notePath) => {
+				const imported = entry.comments.map(comment => ({notePath, comment}));
+				let summary;
+				try {
+					summary = await this.runImport(imported);
+				} catch (e) {
+					new Notice(`Could not restore the comments: ${e instanceof Error ? e.message : String(e)}`);
+					return false;
+				}
+				new Notice(formatImportSummary(summary));
+				if (summary.missingNotes.length > 0) return false;
+				// The comments now live in the note's sidecar
+				await this.store.deleteQuarantined(entry.path);
+				return true;
+			},
+			delete: (entry) => this.store.deleteQuarantined(entry.path),
+		}).open();
+	}
+
+	private async openStorageCheck(): Promise<void> {
+		if (!this.ensureUnlocked()) return;
+		let issues;
+		try {
+			issues = await this.store.checkStorage();
+		} catch (e) {
+			new Notice(`Storage check failed: ${e instanceof Error ? e.message : String(e)}`);
+			return;
+		}
+
+		new StorageCheckModal(this.app, issues, async (issue) => {
+			try {
+				await this.store.repairStorageIssue(issue);
+			} catch (e) {
+				new Notice(`Could not fix ${issue.fileName}: ${e instanceof Error ? e.message : String(e)}`);
+				return false;
+			}
+			this.refreshPanel();
+			this.updateGutterEffects();
+			return true;
+		}).open();
+	}
+
+	private async readJsonFile(file: TFile): Promise<unknown> {
+		try {
+			return JSON.parse(await this.app.vault.read(file)) as unknown;
+		} catch (e) {
+			new Notice(`Import failed: ${e instanceof Error ? e.message : String(e)}`);
+			return undefined;
+		}
+	}
+
+	private async runImport(imported: ImportedComment[]): Promise<ImportSummary> {
+		try {
+			return await applyImport(this.store, this.app.vault, imported, this.settings.fuzzyMatchThreshold);
+		} finally {
+			// Comments added before a failure are shown too
+			this.refreshPanel();
+			this.updateGutterEffects();
+		}
 	}
 
 	private async activatePanel(): Promise<void> {
-		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_COMMENT_PANEL);
+		await this.activateView(VIEW_TYPE_COMMENT_PANEL);
+	}
+
+	private async activateView(viewType: string): Promise<void> {
+		const existing = this.app.workspace.getLeavesOfType(viewType);
 		if (existing.length > 0) {
 			void this.app.workspace.revealLeaf(existing[0]!);
 			return;
@@ -279,7 +994,7 @@ export default class MarginaliaPlugin extends Plugin {
 
 		const leaf = this.app.workspace.getRightLeaf(false);
 		if (leaf) {
-			await leaf.setViewState({type: VIEW_TYPE_COMMENT_PANEL, active: true});
+			await leaf.setViewState({type: viewType, active: true});
 			void this.app.workspace.revealLeaf(leaf);
 		}
 	}
@@ -335,6 +1050,10 @@ export default class MarginaliaPlugin extends Plugin {
 
 	private async updateGutterForActiveFile(): Promise<void> {
 		const file = this.app.workspace.getActiveFile();
+		if (file?.extension === 'canvas') {
+			await this.canvasMarkers.refreshActiveView();
+			return;
+		}
 		if (!file || !file.path.endsWith('.md')) return;
 
 		const mdView = this.app.workspace.getActiveViewOfType(MarkdownView);
@@ -376,6 +1095,8 @@ export default class MarginaliaPlugin extends Plugin {
 
 		const infos = [...anchors.entries()].map(([commentId, anchor]) => ({
 			line: anchor.line,
+			from: anchor.from,
+			to: anchor.to,
 			commentId,
 			count: 1,
 			allResolved: resolutionMap.get(commentId) === 'resolved',
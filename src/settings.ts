@@ -1,22 +1,44 @@
 import {App, Notice, normalizePath, PluginSettingTab, Setting} from "obsidian";
 import type MarginaliaPlugin from "./main";
+import type {StorageLayout} from "./storage/layout";
+import type {EncryptionChange} from "./storage/CommentStore";
+import {PassphraseModal} from "./views/PassphraseModal";
 
 export interface MarginaliaSettings {
-	storageLocation: 'plugin' | 'vault';
+	storageLocation: 'plugin' | 'vault' | 'adjacent';
 	commentSortOrder: 'position' | 'created';
 	showGutterIcons: boolean;
+	highlightAnchors: boolean;
 	fuzzyMatchThreshold: number;
 	orphanHandling: 'keep' | 'delete';
+	authorName: string;
+	authorColor: string;
+	trashRetentionDays: number;
 }
 
 export const DEFAULT_SETTINGS: MarginaliaSettings = {
 	storageLocation: 'plugin',
 	commentSortOrder: 'position',
 	showGutterIcons: true,
+	highlightAnchors: true,
 	fuzzyMatchThreshold: 0.3,
 	orphanHandling: 'keep',
+	authorName: '',
+	authorColor: '',
+	trashRetentionDays: 30,
 };
 
+/**
+ * The storage folder and sidecar layout for a storage location. Next-to-note
+ * storage keeps the index and trash in `.marginalia/`.
+ */
+export function getStorage(location: MarginaliaSettings['storageLocation'], pluginDir: string): {basePath: string; layout: StorageLayout} {
+	return {
+		basePath: normalizePath(location === 'plugin' ? `${pluginDir}/comments` : '.marginalia'),
+		layout: location === 'adjacent' ? 'adjacent' : 'central',
+	};
+}
+
 export class MarginaliaSettingTab extends PluginSettingTab {
 	plugin: MarginaliaPlugin;
 
@@ -35,9 +57,10 @@ export class MarginaliaSettingTab extends PluginSettingTab {
 			.addDropdown(dropdown => dropdown
 				.addOption('plugin', 'Plugin folder (comments/)')
 				.addOption('vault', 'Vault root (.marginalia/)')
+				.addOption('adjacent', 'Next to each note (hidden files)')
 				.setValue(this.plugin.settings.storageLocation)
 				.onChange(async (value) => {
-					this.plugin.settings.storageLocation = value as 'plugin' | 'vault';
+					this.plugin.settings.storageLocation = value as MarginaliaSettings['storageLocation'];
 					await this.plugin.saveSettings();
 				}))
 			.addExtraButton(button => {
@@ -45,13 +68,8 @@ export class MarginaliaSettingTab extends PluginSettingTab {
 					.setIcon('refresh-cw')
 					.setTooltip('Migrate comment data to the selected location')
 					.onClick(async () => {
-						const newBasePath = normalizePath(
-							this.plugin.settings.storageLocation === 'vault'
-								? '.marginalia'
-								: `${this.plugin.manifest.dir ?? ''}/comments`
-						);
-
-						if (newBasePath === this.plugin.store.currentBasePath) {
+						const {basePath, layout} = getStorage(this.plugin.settings.storageLocation, this.plugin.manifest.dir ?? '');
+						if (basePath === this.plugin.store.currentBasePath && layout === this.plugin.store.currentLayout) {
 							new Notice('Comment data is already in the selected location.');
 							return;
 						}
@@ -60,7 +78,7 @@ export class MarginaliaSettingTab extends PluginSettingTab {
 						button.extraSettingsEl.addClass('marginalia-spin');
 
 						try {
-							const count = await this.plugin.store.migrateData(newBasePath);
+							const count = await this.plugin.store.migrateData(basePath, layout);
 							if (count === 0) {
 								new Notice('No comment data to migrate.');
 							} else {
@@ -77,6 +95,29 @@ export class MarginaliaSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName('Encrypt comments')
+			.setDesc('Encrypt comment files with a passphrase. Encrypted comments must be unlocked once per session before they can be read. The passphrase cannot be recovered.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.store.isEncrypted)
+				.onChange((value) => {
+					if (value === this.plugin.store.isEncrypted) return;
+					if (value) {
+						new PassphraseModal(this.app, 'Choose a passphrase', (passphrase) => {
+							void this.changeEncryption({encrypt: true, passphrase});
+						}, true).open();
+						// Stays off until the files are actually encrypted
+						toggle.setValue(false);
+						return;
+					}
+					if (this.plugin.store.isLocked) {
+						new Notice('Unlock the comments before turning encryption off.');
+						toggle.setValue(true);
+						return;
+					}
+					void this.changeEncryption({encrypt: false});
+				}));
+
 		new Setting(containerEl)
 			.setName('Comment sort order')
 			.setDesc('How comments are sorted in the side panel.')
@@ -97,6 +138,18 @@ export class MarginaliaSettingTab extends PluginSettingTab {
 				.onChange(async (value) => {
 					this.plugin.settings.showGutterIcons = value;
 					await this.plugin.saveSettings();
+					this.plugin.updateGutterEffects();
+				}));
+
+		new Setting(containerEl)
+			.setName('Highlight commented text')
+			.setDesc('Highlight the text each comment refers to in the editor. Hover a highlight to preview its comments.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.highlightAnchors)
+				.onChange(async (value) => {
+					this.plugin.settings.highlightAnchors = value;
+					await this.plugin.saveSettings();
+					this.plugin.updateGutterEffects();
 				}));
 
 		new Setting(containerEl)
@@ -122,5 +175,63 @@ export class MarginaliaSettingTab extends PluginSettingTab {
 					this.plugin.settings.orphanHandling = value as 'keep' | 'delete';
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName('Keep deleted comments')
+			.setDesc('How long deleted comments stay in the trash before they are removed permanently.')
+			.addDropdown(dropdown => dropdown
+				.addOption('7', '1 week')
+				.addOption('30', '30 days')
+				.addOption('90', '90 days')
+				.addOption('365', '1 year')
+				.addOption('0', 'Forever')
+				.setValue(String(this.plugin.settings.trashRetentionDays))
+				.onChange(async (value) => {
+					this.plugin.settings.trashRetentionDays = Number(value);
+					await this.plugin.saveSettings();
+					await this.plugin.purgeTrash();
+				}));
+
+		new Setting(containerEl)
+			.setName('Author name')
+			.setDesc('Display name stored on new comments and replies. Leave empty to add comments without an author.')
+			.addText(text => text
+				.setPlaceholder('Your name')
+				.setValue(this.plugin.settings.authorName)
+				.onChange(async (value) => {
+					this.plugin.settings.authorName = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Author color')
+			.setDesc('Optional color used to show your name on comments.')
+			.addColorPicker(picker => picker
+				.setValue(this.plugin.settings.authorColor || '#7f6df2')
+				.onChange(async (value) => {
+					this.plugin.settings.authorColor = value;
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('rotate-ccw')
+				.setTooltip('Clear author color')
+				.onClick(async () => {
+					this.plugin.settings.authorColor = '';
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	private async changeEncryption(change: EncryptionChange): Promise<void> {
+		const store = this.plugin.store;
+		try {
+			await store.migrateData(store.currentBasePath, store.currentLayout, change);
+			new Notice(change.encrypt ? 'Comments are now encrypted.' : 'Comments are no longer encrypted.');
+			this.plugin.refreshPanel();
+			this.plugin.updateGutterEffects();
+		} catch (e) {
+			new Notice(`Could not change encryption: ${e instanceof Error ? e.message : String(e)}`);
+		}
+		this.display();
 	}
 }
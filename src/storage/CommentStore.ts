@@ -1,35 +1,143 @@
-import {normalizePath, type Vault} from 'obsidian';
-import type {AnchoredComment, CommentData, CommentFile, CommentTarget, NoteComment, ReplyComment, ResolvedAnchor, RootComment} from '../types';
-import {isReplyComment, isAnchoredComment, isNoteComment, isRootComment, getRootResolution} from '../types';
+import {normalizePath, Notice, type Vault} from 'obsidian';
+import type {AnchoredComment, CanvasComment, CanvasTarget, CommentAuthor, CommentData, CommentFile, CommentTarget, NoteComment, ReplyComment, ResolvedAnchor, RootComment} from '../types';
+import {COMMENT_FILE_VERSION, isReplyComment, isAnchoredComment, isCanvasComment, isNoteComment, isRootComment, isThreadRoot, getRootResolution} from '../types';
 import {PathIndex} from './PathIndex';
+import {migrateCommentFile, UnsupportedVersionError} from './migrations';
+import {salvageComments, salvageSourceFile, validateCommentFile} from './validation';
+import {parseQuarantineName, QUARANTINE_DIR, quarantineFile} from './quarantine';
+import {conflictOriginalName, isConflictCopy, writeConflictCopy} from './conflicts';
+import {mergeCommentFiles, splitConflictMarkers, splitMergedComments} from './merge';
+import {discardBackup, readBackup, removeWithBackup, repairInterruptedWrites, writeAtomic} from './atomicWrite';
+import {applyHistoryChange, CommentHistory} from './history';
+import {CommentTrash} from './CommentTrash';
+import {parseCanvas, resolveCanvasTarget} from '../anchoring/CanvasSelector';
+import {findRenamedNote, type StorageIssue} from './consistency';
+import {sidecarFileName} from './naming';
+import {adjacentSidecarPath, listAdjacentSidecars, type StorageLayout} from './layout';
+import {CommentCipher, isEncrypted, KEY_FILE, LockedError, parseKeyFile, type TextCodec} from './encryption';
+
+export interface QuarantinedFile {
+	path: string;
+	fileName: string;
+	quarantinedAt: string | null;
+	notePath: string | null;
+	comments: CommentData[];
+}
+
+export interface ConflictMergeResult {
+	merged: number;
+	failed: string[];
+}
+
+/** Turns encryption on with a new passphrase, or off. */
+export type EncryptionChange = {encrypt: true; passphrase: string} | {encrypt: false};
 
 export class CommentStore {
 	private vault: Vault;
 	private basePath: string;
+	private layout: StorageLayout;
 	pathIndex: PathIndex;
+	trash: CommentTrash;
 	private cache: Map<string, CommentFile> = new Map();
 	private writeTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+	// Notes whose sidecar can't be read as it is but must not be replaced: why, for the error when editing them
+	private unreadableFiles: Map<string, string> = new Map();
+	// Sidecar content last read from or written to disk, to tell our writes apart from synced ones
+	private synced: Map<string, {mtime: number; content: string}> = new Map();
+	// Notes whose sidecar is being written; the file is briefly missing mid-write
+	private saving: Set<string> = new Set();
+	private history = new CommentHistory();
 	private resolveAnchorFn: ((target: CommentTarget, docText: string, threshold: number) => ResolvedAnchor | null) | null = null;
+	private authorFn: (() => CommentAuthor | undefined) | null = null;
+	// Set while a key file exists; the files can only be read once unlocked
+	private encrypted = false;
+	private cipher: CommentCipher | null = null;
+	private codec: TextCodec = {
+		decode: (raw) => this.decode(raw),
+		encode: (text) => this.encode(text),
+	};
 
 	get currentBasePath(): string {
 		return this.basePath;
 	}
 
-	constructor(vault: Vault, basePath: string) {
+	get currentLayout(): StorageLayout {
+		return this.layout;
+	}
+
+	constructor(vault: Vault, basePath: string, layout: StorageLayout = 'central') {
 		this.vault = vault;
 		this.basePath = basePath;
-		this.pathIndex = new PathIndex(vault, this.basePath);
+		this.layout = layout;
+		this.pathIndex = new PathIndex(vault, this.basePath, this.layout);
+		this.trash = new CommentTrash(vault, this.basePath, this.codec);
+	}
+
+	get isEncrypted(): boolean {
+		return this.encrypted;
+	}
+
+	get isLocked(): boolean {
+		return this.encrypted && !this.cipher;
 	}
 
 	setAnchorResolver(fn: (target: CommentTarget, docText: string, threshold: number) => ResolvedAnchor | null): void {
 		this.resolveAnchorFn = fn;
 	}
 
+	setAuthorProvider(fn: () => CommentAuthor | undefined): void {
+		this.authorFn = fn;
+	}
+
 	async initialize(): Promise<void> {
 		if (!(await this.vault.adapter.exists(this.basePath))) {
 			await this.vault.adapter.mkdir(this.basePath);
 		}
+		await repairInterruptedWrites(this.vault, this.basePath);
 		await this.pathIndex.load();
+		if (this.layout === 'adjacent') {
+			// Adjacent sidecars are spread over the note folders
+			const dirs = new Set(this.pathIndex.getAllNotePaths().map(p => {
+				const fileName = this.pathIndex.getCommentFileName(p)!;
+				return fileName.substring(0, fileName.lastIndexOf('/') + 1) || '/';
+			}));
+			for (const dir of dirs) {
+				await repairInterruptedWrites(this.vault, dir);
+			}
+		} else if (this.pathIndex.hasLegacyNames) {
+			await this.renameLegacySidecars();
+		}
+		this.encrypted = await this.vault.adapter.exists(this.getKeyFilePath());
+		await this.trash.load();
+	}
+
+	/** Derives the key from the passphrase. Returns false if the passphrase is wrong. */
+	async unlock(passphrase: string): Promise<boolean> {
+		const keyFile = parseKeyFile(await this.vault.adapter.read(this.getKeyFilePath()));
+		const cipher = await CommentCipher.unlock(keyFile, passphrase);
+		if (!cipher) return false;
+
+		this.cipher = cipher;
+		this.cache.clear();
+		this.synced.clear();
+		this.unreadableFiles.clear();
+		await this.trash.load();
+		return true;
+	}
+
+	/** Saves pending changes and forgets the key and every decrypted comment. */
+	async lock(): Promise<void> {
+		if (!this.encrypted) return;
+		await this.flushAll();
+		this.cipher = null;
+		this.cache.clear();
+		this.synced.clear();
+		this.history.clear();
+		await this.trash.load();
+	}
+
+	getAnnotatedNotePaths(): string[] {
+		return this.pathIndex.getAllNotePaths();
 	}
 
 	async getComments(notePath: string): Promise<CommentData[]> {
@@ -45,6 +153,7 @@ export class CommentStore {
 			kind: 'anchored',
 			id: generateId(),
 			body,
+			...this.currentAuthor(),
 			target,
 			status: 'active',
 			resolution: 'open',
@@ -52,6 +161,7 @@ export class CommentStore {
 			updatedAt: now,
 		};
 		file.comments.push(comment);
+		this.history.record(notePath, 'Add comment', [], [comment]);
 		this.scheduleSave(notePath);
 		return comment;
 	}
@@ -63,11 +173,33 @@ export class CommentStore {
 			kind: 'note',
 			id: generateId(),
 			body,
+			...this.currentAuthor(),
 			resolution: 'open',
 			createdAt: now,
 			updatedAt: now,
 		};
 		file.comments.push(comment);
+		this.history.record(notePath, 'Add note comment', [], [comment]);
+		this.scheduleSave(notePath);
+		return comment;
+	}
+
+	async addCanvasComment(notePath: string, body: string, target: CanvasTarget): Promise<CanvasComment> {
+		const file = await this.getOrCreateCommentFile(notePath);
+		const now = new Date().toISOString();
+		const comment: CanvasComment = {
+			kind: 'canvas',
+			id: generateId(),
+			body,
+			...this.currentAuthor(),
+			target,
+			status: 'active',
+			resolution: 'open',
+			createdAt: now,
+			updatedAt: now,
+		};
+		file.comments.push(comment);
+		this.history.record(notePath, 'Add comment', [], [comment]);
 		this.scheduleSave(notePath);
 		return comment;
 	}
@@ -77,17 +209,19 @@ export class CommentStore {
 		if (!file) return null;
 
 		const parent = file.comments.find(c => c.id === parentId);
-		if (!parent || !isAnchoredComment(parent)) return null;
+		if (!parent || !isThreadRoot(parent)) return null;
 
 		const now = new Date().toISOString();
 		const reply: ReplyComment = {
 			id: generateId(),
 			parentId,
 			body,
+			...this.currentAuthor(),
 			createdAt: now,
 			updatedAt: now,
 		};
 		file.comments.push(reply);
+		this.history.record(notePath, 'Reply', [], [reply]);
 		this.scheduleSave(notePath);
 		return reply;
 	}
@@ -99,8 +233,53 @@ export class CommentStore {
 		const comment = file.comments.find(c => c.id === commentId);
 		if (!comment) return null;
 
+		if (comment.body === body) return comment;
+
+		const before = {...comment};
+		const now = new Date().toISOString();
+		const {author: editedBy} = this.currentAuthor();
+		comment.revisions = [
+			...(comment.revisions ?? []),
+			{body: comment.body, editedAt: now, ...(editedBy ? {editedBy} : {})},
+		];
 		comment.body = body;
-		comment.updatedAt = new Date().toISOString();
+		comment.updatedAt = now;
+		this.history.record(notePath, 'Edit comment', [before], [comment]);
+		this.scheduleSave(notePath);
+		return comment;
+	}
+
+	/**
+	 * Points an anchored comment at new text. The quote it had is kept in
+	 * `previousTargets` so its history still shows what it referred to.
+	 */
+	async reattachComment(notePath: string, commentId: string, target: CommentTarget): Promise<AnchoredComment | null> {
+		return this.replaceTarget(notePath, commentId, target, 'Re-attach comment');
+	}
+
+	/** Updates the quote of an anchor that only matched similar text to the text it matched. */
+	async acceptCurrentText(notePath: string, commentId: string, target: CommentTarget): Promise<AnchoredComment | null> {
+		return this.replaceTarget(notePath, commentId, target, 'Accept current text');
+	}
+
+	private async replaceTarget(notePath: string, commentId: string, target: CommentTarget, label: string): Promise<AnchoredComment | null> {
+		const file = await this.loadCommentFile(notePath);
+		if (!file) return null;
+
+		const comment = file.comments.find(c => c.id === commentId);
+		if (!comment || !isAnchoredComment(comment)) return null;
+
+		const before = {...comment};
+		const now = new Date().toISOString();
+		const {author: replacedBy} = this.currentAuthor();
+		comment.previousTargets = [
+			...(comment.previousTargets ?? []),
+			{exact: comment.target.exact, replacedAt: now, ...(replacedBy ? {replacedBy} : {})},
+		];
+		comment.target = target;
+		comment.status = 'active';
+		comment.updatedAt = now;
+		this.history.record(notePath, label, [before], [comment]);
 		this.scheduleSave(notePath);
 		return comment;
 	}
@@ -112,8 +291,10 @@ export class CommentStore {
 		const comment = file.comments.find(c => c.id === commentId);
 		if (!comment || !isRootComment(comment)) return null;
 
+		const before = {...comment};
 		comment.resolution = getRootResolution(comment) === 'open' ? 'resolved' : 'open';
 		comment.updatedAt = new Date().toISOString();
+		this.history.record(notePath, comment.resolution === 'resolved' ? 'Resolve comment' : 'Reopen comment', [before], [comment]);
 		this.scheduleSave(notePath);
 		return comment;
 	}
@@ -126,12 +307,16 @@ export class CommentStore {
 		if (idx === -1) return false;
 
 		const target = file.comments[idx]!;
+		const removed = [
+			target,
+			...file.comments.filter(c => isThreadRoot(target) && isReplyComment(c) && c.parentId === commentId),
+		];
 
 		if (isNoteComment(target)) {
 			// NoteComment has no replies — simple removal
 			file.comments.splice(idx, 1);
-		} else if (isAnchoredComment(target)) {
-			// Cascade delete: remove all replies to this anchored comment
+		} else if (isThreadRoot(target)) {
+			// Cascade delete: remove all replies to this thread
 			file.comments = file.comments.filter(
 				c => c.id === commentId ? false : !(isReplyComment(c) && c.parentId === commentId)
 			);
@@ -139,7 +324,88 @@ export class CommentStore {
 			file.comments.splice(idx, 1);
 		}
 
+		this.history.record(notePath, 'Delete comment', removed, []);
 		this.scheduleSave(notePath);
+		await this.trash.add(notePath, removed);
+		return true;
+	}
+
+	canUndo(notePath: string): boolean {
+		return this.history.canUndo(notePath);
+	}
+
+	canRedo(notePath: string): boolean {
+		return this.history.canRedo(notePath);
+	}
+
+	/** Reverts the last action on a note. Returns its label, or null if there was none. */
+	async undo(notePath: string): Promise<string | null> {
+		const file = await this.loadCommentFile(notePath);
+		const entry = file && this.history.takeUndo(notePath);
+		if (!file || !entry) return null;
+
+		file.comments = applyHistoryChange(file.comments, entry.after, entry.before);
+		this.scheduleSave(notePath);
+		await this.trash.discardComments(notePath, entry.before.map(c => c.id));
+		return entry.label;
+	}
+
+	/** Reapplies the last undone action on a note. Returns its label, or null if there was none. */
+	async redo(notePath: string): Promise<string | null> {
+		const file = await this.loadCommentFile(notePath);
+		const entry = file && this.history.takeRedo(notePath);
+		if (!file || !entry) return null;
+
+		file.comments = applyHistoryChange(file.comments, entry.before, entry.after);
+		this.scheduleSave(notePath);
+		if (entry.after.length === 0) {
+			// Redoing a delete puts the comments back in the trash
+			await this.trash.add(notePath, entry.before);
+		}
+		return entry.label;
+	}
+
+	/**
+	 * Adds externally sourced comments to a note, skipping ids that already
+	 * exist. Returns the comments that were actually added.
+	 */
+	async importComments(notePath: string, comments: CommentData[]): Promise<CommentData[]> {
+		if (comments.length === 0) return [];
+
+		const file = await this.getOrCreateCommentFile(notePath);
+		const existingIds = new Set(file.comments.map(c => c.id));
+		const added = comments.filter(c => !existingIds.has(c.id));
+		if (added.length === 0) return [];
+
+		file.comments.push(...added);
+		this.scheduleSave(notePath);
+		return added;
+	}
+
+	/**
+	 * Moves an anchored thread and its replies to another note, anchored to
+	 * `target` there. Undo history for the thread is dropped on both sides,
+	 * since undoing there would bring back a copy. Returns false if the
+	 * thread no longer exists.
+	 */
+	async moveThread(fromPath: string, rootId: string, toPath: string, target: CommentTarget): Promise<boolean> {
+		const source = await this.loadCommentFile(fromPath);
+		const root = source?.comments.find(c => c.id === rootId);
+		if (!source || !root || !isAnchoredComment(root)) return false;
+
+		const dest = await this.getOrCreateCommentFile(toPath);
+		const moved = source.comments.filter(c => c.id === rootId || (isReplyComment(c) && c.parentId === rootId));
+		const ids = new Set(moved.map(c => c.id));
+		source.comments = source.comments.filter(c => !ids.has(c.id));
+		root.target = target;
+		root.status = 'active';
+		root.updatedAt = new Date().toISOString();
+		dest.comments.push(...moved.filter(c => !dest.comments.some(d => d.id === c.id)));
+
+		this.history.forgetComments(fromPath, ids);
+		this.history.forgetComments(toPath, ids);
+		this.scheduleSave(fromPath);
+		this.scheduleSave(toPath);
 		return true;
 	}
 
@@ -176,8 +442,49 @@ export class CommentStore {
 		return results;
 	}
 
+	/**
+	 * Matches canvas comments against the current canvas file, marking comments
+	 * whose node or edge is gone as orphaned. Returns the ids of comments that
+	 * still have an item on the canvas.
+	 */
+	async resolveCanvasAnchors(notePath: string, canvasText: string): Promise<Set<string>> {
+		const found = new Set<string>();
+		const items = parseCanvas(canvasText);
+		const comments = await this.getComments(notePath);
+		let changed = false;
+
+		for (const comment of comments) {
+			if (!isCanvasComment(comment)) continue;
+
+			const itemId = resolveCanvasTarget(comment.target, items);
+			if (itemId) {
+				found.add(comment.id);
+				if (comment.target.id !== itemId) {
+					comment.target.id = itemId;
+					changed = true;
+				}
+				if (comment.status === 'orphaned') {
+					comment.status = 'active';
+					changed = true;
+				}
+			} else if (comment.status === 'active') {
+				comment.status = 'orphaned';
+				changed = true;
+			}
+		}
+
+		if (changed) {
+			this.scheduleSave(notePath);
+		}
+		return found;
+	}
+
 	async handleRename(oldPath: string, newPath: string): Promise<void> {
+		const fileName = this.pathIndex.getCommentFileName(oldPath);
 		await this.pathIndex.renamePath(oldPath, newPath);
+		if (fileName && this.layout === 'adjacent') {
+			await this.moveAdjacentSidecar(fileName, newPath);
+		}
 
 		const cached = this.cache.get(oldPath);
 		if (cached) {
@@ -186,18 +493,61 @@ export class CommentStore {
 			this.cache.set(newPath, cached);
 			this.scheduleSave(newPath);
 		}
+		this.history.rename(oldPath, newPath);
+		await this.trash.renamePath(oldPath, newPath);
+		const synced = this.synced.get(oldPath);
+		if (synced) {
+			this.synced.delete(oldPath);
+			this.synced.set(newPath, synced);
+		}
 	}
 
 	async handleDelete(notePath: string, shouldDelete: boolean): Promise<void> {
 		const fileName = await this.pathIndex.deletePath(notePath);
 		this.cache.delete(notePath);
+		this.synced.delete(notePath);
+		this.history.delete(notePath);
 
-		if (shouldDelete && fileName) {
-			const filePath = normalizePath(`${this.basePath}/${fileName}`);
-			if (await this.vault.adapter.exists(filePath)) {
-				await this.vault.adapter.remove(filePath);
-			}
+		if (!fileName) return;
+		if (shouldDelete) {
+			await removeWithBackup(this.vault, this.sidecarPath(fileName));
+		} else if (this.layout === 'adjacent') {
+			await this.keepAdjacentSidecar(notePath, fileName);
+		}
+	}
+
+	/**
+	 * Moves the sidecar of a deleted note into the storage folder. Left next to
+	 * the note, it would be overwritten by the comments of a new note at the
+	 * same path; in the storage folder it is kept like any unindexed sidecar,
+	 * and "Check comment storage" links it again if the note is restored.
+	 */
+	private async keepAdjacentSidecar(notePath: string, fileName: string): Promise<void> {
+		const from = this.sidecarPath(fileName);
+		if (!(await this.vault.adapter.exists(from))) return;
+
+		if (!(await this.vault.adapter.exists(this.basePath))) {
+			await this.vault.adapter.mkdir(this.basePath);
 		}
+		const taken = new Set((await this.vault.adapter.list(this.basePath)).files.map(f => f.substring(this.basePath.length + 1)));
+		await this.vault.adapter.rename(from, normalizePath(`${this.basePath}/${sidecarFileName(notePath, taken)}`));
+		await removeWithBackup(this.vault, from);
+	}
+
+	/**
+	 * Moves an adjacent sidecar along with its note. When a whole folder was
+	 * renamed the sidecar has already moved with it, and only the index changes.
+	 */
+	private async moveAdjacentSidecar(fileName: string, newNotePath: string): Promise<void> {
+		const from = this.sidecarPath(fileName);
+		const to = adjacentSidecarPath(newNotePath);
+		if (from === to) return;
+
+		if (await this.vault.adapter.exists(from) && !(await this.vault.adapter.exists(to))) {
+			await this.vault.adapter.rename(from, to);
+			await removeWithBackup(this.vault, from);
+		}
+		await this.pathIndex.setCommentFileName(newNotePath, to);
 	}
 
 	async flushAll(): Promise<void> {
@@ -213,10 +563,26 @@ export class CommentStore {
 		await Promise.all(saves);
 	}
 
-	async migrateData(newBasePath: string): Promise<number> {
-		if (newBasePath === this.basePath) {
+	/**
+	 * Moves all comment data to a new storage folder and/or layout, and can
+	 * turn encryption on or off on the way. Sidecars are renamed for the new
+	 * layout and the index is rewritten to match; the trash, quarantined
+	 * files and anything else in the storage folder move as they are, or
+	 * re-encoded when encryption changes. Returns the number of files written.
+	 */
+	async migrateData(
+		newBasePath: string,
+		newLayout: StorageLayout = this.layout,
+		encryption?: EncryptionChange
+	): Promise<number> {
+		const transcoding = encryption !== undefined && encryption.encrypt !== this.encrypted;
+		if (newBasePath === this.basePath && newLayout === this.layout && !transcoding) {
 			return 0;
 		}
+		if (this.pathIndex.isReadOnly) {
+			throw new Error('The comment index was written by a newer version of Marginalia and cannot be moved.');
+		}
+		if (this.isLocked) throw new LockedError();
 
 		// Phase 0: Flush all pending writes to disk
 		await this.flushAll();
@@ -226,81 +592,609 @@ export class CommentStore {
 			await this.vault.adapter.mkdir(newBasePath);
 		}
 
-		// Phase 1: List source files
-		let listed: { files: string[]; folders: string[] };
-		try {
-			listed = await this.vault.adapter.list(this.basePath);
-		} catch {
-			// Source directory doesn't exist or can't be listed
-			this.reinitialize(newBasePath);
-			await this.pathIndex.load();
-			return 0;
+		// The key file is written before anything is encrypted and removed after everything is decrypted,
+		// so an interrupted migration leaves files that can still be read
+		const oldKeyFilePath = this.getKeyFilePath();
+		const newKeyFilePath = normalizePath(`${newBasePath}/${KEY_FILE}`);
+		let newCipher = this.cipher;
+		if (encryption?.encrypt && transcoding) {
+			const created = await CommentCipher.create(encryption.passphrase);
+			newCipher = created.cipher;
+			await writeAtomic(this.vault, newKeyFilePath, JSON.stringify(created.keyFile, null, 2));
+		} else if (encryption?.encrypt === false) {
+			newCipher = null;
+		} else if (this.encrypted && newKeyFilePath !== oldKeyFilePath) {
+			await writeAtomic(this.vault, newKeyFilePath, await this.vault.adapter.read(oldKeyFilePath));
 		}
+		// Sidecars that can't be decrypted stop the migration; other files are damaged already and kept as they are
+		const encode = async (raw: string, strict: boolean): Promise<string> => {
+			if (!transcoding) return raw;
+			const text = strict ? await this.decode(raw) : await this.decodeForSalvage(raw);
+			return newCipher ? newCipher.encrypt(text) : text;
+		};
 
-		if (listed.files.length === 0) {
-			this.reinitialize(newBasePath);
-			await this.pathIndex.load();
-			return 0;
+		// Phase 1: Plan the moves, starting with the sidecars under their new names
+		const moves: Array<{src: string; dest: string}> = [];
+		const mappings = new Map<string, string>();
+		const taken = new Set<string>();
+		const sidecars = new Set<string>();
+		for (const notePath of this.pathIndex.getAllNotePaths()) {
+			const src = this.sidecarPath(this.pathIndex.getCommentFileName(notePath)!);
+			const fileName = newLayout === 'adjacent' ? adjacentSidecarPath(notePath) : sidecarFileName(notePath, taken);
+			const dest = normalizePath(newLayout === 'adjacent' ? fileName : `${newBasePath}/${fileName}`);
+			taken.add(fileName);
+			mappings.set(notePath, fileName);
+			sidecars.add(src);
+			if ((src !== dest || transcoding) && await this.vault.adapter.exists(src)) {
+				moves.push({src, dest});
+			}
 		}
 
-		// Phase 2: Copy all files to destination
-		const copies: Array<{ src: string; dest: string; content: string }> = [];
-		for (const srcFile of listed.files) {
-			const fileName = srcFile.substring(this.basePath.length + 1);
-			const content = await this.vault.adapter.read(srcFile);
-			const destFile = normalizePath(`${newBasePath}/${fileName}`);
-			await this.vault.adapter.write(destFile, content);
-			copies.push({ src: srcFile, dest: destFile, content });
+		// Quarantined files and the trash move along so they can still be recovered
+		const quarantineDir = normalizePath(`${this.basePath}/${QUARANTINE_DIR}`);
+		let hasQuarantine = false;
+		if ((newBasePath !== this.basePath || transcoding) && await this.vault.adapter.exists(this.basePath)) {
+			const listed = await this.vault.adapter.list(this.basePath);
+			const files = [...listed.files];
+			hasQuarantine = listed.folders.includes(quarantineDir);
+			if (hasQuarantine) {
+				files.push(...(await this.vault.adapter.list(quarantineDir)).files);
+				const destQuarantineDir = normalizePath(`${newBasePath}/${QUARANTINE_DIR}`);
+				if (!(await this.vault.adapter.exists(destQuarantineDir))) {
+					await this.vault.adapter.mkdir(destQuarantineDir);
+				}
+			}
+			const indexPath = normalizePath(`${this.basePath}/_index.json`);
+			for (const src of files) {
+				// The index is written fresh, the key file is handled above, and sidecars (with their backups) are already planned
+				const main = src.replace(/\.(bak|tmp)$/, '');
+				if (main === indexPath || main === oldKeyFilePath || sidecars.has(main)) continue;
+				// Backups would keep the old encoding; the files they back up are re-encoded instead
+				if (transcoding && main !== src) continue;
+				moves.push({src, dest: normalizePath(`${newBasePath}/${src.substring(this.basePath.length + 1)}`)});
+			}
+		}
+
+		// Phase 2: Copy all files to their destination, re-encoding them if encryption changes
+		const copies: Array<{src: string; dest: string; content: string}> = [];
+		for (const {src, dest} of moves) {
+			const content = await encode(await this.vault.adapter.read(src), sidecars.has(src));
+			const dir = dest.substring(0, dest.lastIndexOf('/'));
+			if (dir && !(await this.vault.adapter.exists(dir))) {
+				await this.vault.adapter.mkdir(dir);
+			}
+			if (src === dest) {
+				// Rewritten in place, so the old version must not survive as a backup
+				await writeAtomic(this.vault, dest, content);
+				await discardBackup(this.vault, dest);
+			} else {
+				await this.vault.adapter.write(dest, content);
+			}
+			copies.push({src, dest, content});
 		}
 
 		// Phase 3: Verify all copies before deleting originals
-		for (const { dest, content } of copies) {
+		for (const {dest, content} of copies) {
 			const verified = await this.vault.adapter.read(dest);
 			if (verified !== content) {
 				throw new Error(`Migration verification failed for ${dest}`);
 			}
 		}
 
-		// Phase 4: Delete originals (all copies verified)
-		for (const { src } of copies) {
-			await this.vault.adapter.remove(src);
+		// Phase 4: Switch to the new location and write its index, so the copies are in use before the originals go
+		const oldBasePath = this.basePath;
+		const wasEncrypted = this.encrypted;
+		this.reinitialize(newBasePath, newLayout);
+		this.cipher = newCipher;
+		this.encrypted = newCipher !== null;
+		await this.pathIndex.replaceFileNames(mappings);
+		await this.trash.load();
+
+		// Phase 5: Delete originals (all copies verified)
+		for (const {src, dest} of copies) {
+			if (src === dest) continue;
+			if (sidecars.has(src) || transcoding) {
+				await removeWithBackup(this.vault, src);
+			} else {
+				await this.vault.adapter.remove(src);
+			}
+		}
+		if (wasEncrypted && (!this.encrypted || newKeyFilePath !== oldKeyFilePath)) {
+			await removeWithBackup(this.vault, oldKeyFilePath);
+		}
+
+		// Phase 6: Try to remove the now-empty source directories
+		if (newBasePath !== oldBasePath) {
+			await removeWithBackup(this.vault, normalizePath(`${oldBasePath}/_index.json`));
+			try {
+				if (hasQuarantine) {
+					await this.vault.adapter.rmdir(normalizePath(`${oldBasePath}/${QUARANTINE_DIR}`), false);
+				}
+				await this.vault.adapter.rmdir(oldBasePath, false);
+			} catch {
+				// Directory might not be empty or removable — ignore
+			}
+		}
+
+		return copies.length;
+	}
+
+	/**
+	 * Picks up sidecar changes made outside the plugin (sync, git, another
+	 * device). Cached notes without unsaved edits are reloaded. When a note has
+	 * unsaved edits too, both versions are merged by comment id against the
+	 * version last read from or written to disk; if the disk version can't be
+	 * read, the in-memory version is kept and the disk version is saved as a
+	 * conflict copy. With `notePaths`, only the sidecars of those notes are
+	 * checked. Returns true if anything changed.
+	 */
+	async syncFromDisk(notePaths?: ReadonlySet<string>): Promise<boolean> {
+		let changed = false;
+
+		if (await this.pathIndex.reloadIfChanged()) {
+			changed = true;
+			if (this.pathIndex.hasLegacyNames) await this.renameLegacySidecars();
+			// Keep mappings for notes with unsaved edits that the remote index dropped
+			let restored = false;
+			for (const notePath of this.writeTimers.keys()) {
+				if (!this.pathIndex.getCommentFileName(notePath)) {
+					this.pathIndex.getOrCreateCommentFileName(notePath);
+					restored = true;
+				}
+			}
+			if (restored) await this.pathIndex.save();
+		}
+
+		for (const notePath of [...this.cache.keys()]) {
+			if (this.saving.has(notePath)) continue;
+			const fileName = this.pathIndex.getCommentFileName(notePath);
+			if (!fileName) {
+				if (!this.writeTimers.has(notePath)) {
+					this.cache.delete(notePath);
+					this.synced.delete(notePath);
+				}
+				continue;
+			}
+			if (notePaths && !notePaths.has(notePath)) continue;
+
+			const filePath = this.sidecarPath(fileName);
+			const stat = await this.vault.adapter.stat(filePath);
+			const synced = this.synced.get(notePath);
+			if (!stat) {
+				// Deleted elsewhere; unsaved edits will write it back
+				if (synced && !this.writeTimers.has(notePath)) {
+					this.cache.delete(notePath);
+					this.synced.delete(notePath);
+					changed = true;
+				}
+				continue;
+			}
+			if (stat.mtime === synced?.mtime) continue;
+
+			const content = await this.vault.adapter.read(filePath);
+			if (content === synced?.content) {
+				synced.mtime = stat.mtime;
+				continue;
+			}
+
+			const cached = this.cache.get(notePath)!;
+			if (this.writeTimers.has(notePath)) {
+				// Both sides changed: merge against the version both started from
+				const theirs = await this.tryParseCommentFile(content, notePath);
+				if (theirs) {
+					const base = synced ? await this.tryParseCommentFile(synced.content, notePath) : null;
+					cached.comments = mergeCommentFiles(base, cached, theirs, this.trash.getDeletedIds(notePath)).comments;
+					this.scheduleSave(notePath);
+					changed = true;
+				} else {
+					await writeConflictCopy(this.vault, filePath, content);
+					new Notice(`Comments for ${notePath} were changed on disk while you were editing them. Your version was kept and the other version was saved as a conflict copy.`);
+				}
+				this.synced.set(notePath, {mtime: stat.mtime, content});
+				continue;
+			}
+
+			this.cache.delete(notePath);
+			this.synced.delete(notePath);
+			await this.loadCommentFile(notePath);
+			changed = true;
+		}
+
+		return changed;
+	}
+
+	/**
+	 * Merges conflict copies left in the storage folder by sync tools into the
+	 * sidecar they belong to, then removes them. There is no common base
+	 * version for these; comments in the trash count as deleted instead, so
+	 * a deletion on one side is kept.
+	 */
+	async mergeConflictCopies(): Promise<ConflictMergeResult> {
+		const result: ConflictMergeResult = {merged: 0, failed: []};
+		for (const copyPath of await this.listSidecarFiles()) {
+			const dir = copyPath.substring(0, copyPath.lastIndexOf('/') + 1);
+			const originalName = conflictOriginalName(copyPath.substring(dir.length));
+			if (!originalName) continue;
+			const original = this.fileNameOf(dir + originalName);
+
+			const raw = await this.vault.adapter.read(copyPath);
+			const notePath = this.pathIndex.getNotePathForFileName(original) ?? salvageSourceFile(await this.decodeForSalvage(raw));
+			const theirs = notePath ? await this.tryParseCommentFile(raw, notePath) : null;
+			if (!notePath || !theirs) {
+				result.failed.push(copyPath);
+				continue;
+			}
+
+			try {
+				const ours = await this.getOrCreateCommentFile(notePath);
+				ours.comments = mergeCommentFiles(null, ours, theirs, this.trash.getDeletedIds(notePath)).comments;
+			} catch {
+				result.failed.push(copyPath);
+				continue;
+			}
+			await this.saveCommentFile(notePath);
+			await this.vault.adapter.remove(copyPath);
+			result.merged++;
+		}
+		return result;
+	}
+
+	/**
+	 * Compares the path index, the sidecar files and the vault, and lists every
+	 * disagreement. Nothing is changed; see `repairStorageIssue`.
+	 */
+	async checkStorage(): Promise<StorageIssue[]> {
+		if (this.pathIndex.isReadOnly) {
+			throw new Error('The comment index was written by a newer version of Marginalia and cannot be checked.');
+		}
+		await this.flushAll();
+
+		const sidecars = new Map<string, {sourceFile: string | null; comments: CommentData[]}>();
+		for (const path of await this.listSidecarFiles()) {
+			const fileName = this.fileNameOf(path);
+			// Skip the index, the trash, backups and conflict copies
+			const name = path.substring(path.lastIndexOf('/') + 1);
+			if (!name.endsWith('.json') || name.startsWith('_') || isConflictCopy(path)) continue;
+			const raw = await this.decodeForSalvage(await this.vault.adapter.read(path));
+			sidecars.set(fileName, {sourceFile: salvageSourceFile(raw), comments: salvageComments(raw)});
+		}
+
+		const vaultPaths = new Set(this.vault.getFiles().map(f => f.path));
+		const indexed = new Map(this.pathIndex.getAllNotePaths().map(p => [p, this.pathIndex.getCommentFileName(p)!]));
+		const indexedFiles = new Set(indexed.values());
+		const issues: StorageIssue[] = [];
+
+		// Unindexed sidecars whose note still exists claim that note before renames are looked for
+		const claimed = new Set(indexed.keys());
+		const unmatched: Array<[string, {sourceFile: string | null; comments: CommentData[]}]> = [];
+		for (const [fileName, sidecar] of sidecars) {
+			if (indexedFiles.has(fileName)) continue;
+			const source = sidecar.sourceFile;
+			if (source && vaultPaths.has(source)) {
+				issues.push({type: indexed.has(source) ? 'duplicate-sidecar' : 'missing-index-entry', fileName, notePath: source});
+				claimed.add(source);
+			} else {
+				unmatched.push([fileName, sidecar]);
+			}
+		}
+
+		const findRename = async (notePath: string, comments: CommentData[]): Promise<string | null> => {
+			const candidates = [...vaultPaths].filter(p => !claimed.has(p));
+			const newPath = await findRenamedNote(notePath, comments, candidates, p => this.vault.adapter.read(p));
+			if (newPath) claimed.add(newPath);
+			return newPath;
+		};
+
+		for (const [notePath, fileName] of indexed) {
+			const sidecar = sidecars.get(fileName);
+			if (!sidecar) {
+				issues.push({type: 'missing-sidecar', fileName, notePath});
+			} else if (!vaultPaths.has(notePath)) {
+				const newPath = await findRename(notePath, sidecar.comments);
+				issues.push(newPath
+					? {type: 'renamed', fileName, oldPath: notePath, newPath}
+					: {type: 'leftover', fileName, notePath, commentCount: sidecar.comments.length});
+			} else if (sidecar.sourceFile !== notePath) {
+				issues.push({type: 'source-mismatch', fileName, notePath, sourceFile: sidecar.sourceFile});
+			}
+		}
+
+		for (const [fileName, sidecar] of unmatched) {
+			const newPath = sidecar.sourceFile ? await findRename(sidecar.sourceFile, sidecar.comments) : null;
+			issues.push(newPath && sidecar.sourceFile
+				? {type: 'renamed', fileName, oldPath: sidecar.sourceFile, newPath}
+				: {type: 'leftover', fileName, notePath: sidecar.sourceFile, commentCount: sidecar.comments.length});
+		}
+		return issues;
+	}
+
+	/** Applies the fix for one issue found by `checkStorage`. Leftovers are deleted. */
+	async repairStorageIssue(issue: StorageIssue): Promise<void> {
+		const filePath = this.sidecarPath(issue.fileName);
+
+		switch (issue.type) {
+			case 'missing-index-entry':
+				if (!this.pathIndex.getCommentFileName(issue.notePath)) {
+					await this.pathIndex.setCommentFileName(issue.notePath, issue.fileName);
+					break;
+				}
+				// The note got a new sidecar since the check, so merge into that one
+				// falls through
+			case 'duplicate-sidecar': {
+				const theirs = await this.tryParseCommentFile(await this.vault.adapter.read(filePath), issue.notePath);
+				if (!theirs) throw new Error(`${issue.fileName} could not be read.`);
+				const ours = await this.getOrCreateCommentFile(issue.notePath);
+				ours.comments = mergeCommentFiles(null, ours, theirs, this.trash.getDeletedIds(issue.notePath)).comments;
+				await this.saveCommentFile(issue.notePath);
+				await removeWithBackup(this.vault, filePath);
+				break;
+			}
+			case 'source-mismatch':
+				await this.relinkSidecar(issue.notePath);
+				break;
+			case 'missing-sidecar':
+				await this.handleDelete(issue.notePath, false);
+				break;
+			case 'renamed':
+				if (this.pathIndex.getCommentFileName(issue.oldPath) !== issue.fileName) {
+					await this.pathIndex.setCommentFileName(issue.oldPath, issue.fileName);
+				}
+				await this.handleRename(issue.oldPath, issue.newPath);
+				await this.relinkSidecar(issue.newPath);
+				break;
+			case 'leftover':
+				if (issue.notePath && this.pathIndex.getCommentFileName(issue.notePath) === issue.fileName) {
+					await this.handleDelete(issue.notePath, true);
+				} else {
+					await removeWithBackup(this.vault, filePath);
+				}
+				break;
+		}
+	}
+
+	/** Rewrites a sidecar's "sourceFile" to the note it is indexed under. */
+	private async relinkSidecar(notePath: string): Promise<void> {
+		const file = await this.loadCommentFile(notePath);
+		if (!file) throw new Error(`Comments for ${notePath} could not be read.`);
+		file.sourceFile = notePath;
+		await this.saveCommentFile(notePath);
+	}
+
+	async listQuarantined(): Promise<QuarantinedFile[]> {
+		const dir = normalizePath(`${this.basePath}/${QUARANTINE_DIR}`);
+		if (!(await this.vault.adapter.exists(dir))) return [];
+
+		const listed = await this.vault.adapter.list(dir);
+		const entries: QuarantinedFile[] = [];
+		for (const path of listed.files) {
+			const raw = await this.decodeForSalvage(await this.vault.adapter.read(path));
+			const {fileName, quarantinedAt} = parseQuarantineName(path);
+			entries.push({
+				path,
+				fileName,
+				quarantinedAt,
+				notePath: salvageSourceFile(raw) ?? this.pathIndex.getNotePathForFileName(fileName) ?? null,
+				comments: salvageComments(raw),
+			});
 		}
+		return entries.sort((a, b) => (b.quarantinedAt ?? '').localeCompare(a.quarantinedAt ?? ''));
+	}
 
-		// Phase 5: Try to remove the now-empty source directory
+	async deleteQuarantined(path: string): Promise<void> {
+		if (await this.vault.adapter.exists(path)) {
+			await this.vault.adapter.remove(path);
+		}
+	}
+
+	/**
+	 * Moves sidecars from the old `a__b.md.json` names to collision-free ones.
+	 * Notes whose paths collided under the old scheme shared one file; their
+	 * comments are split between them again. The new files are written and
+	 * indexed before the old ones are removed, so an interruption only leaves
+	 * extra copies behind.
+	 */
+	private async renameLegacySidecars(): Promise<void> {
+		const notesByFile = new Map<string, string[]>();
+		for (const notePath of this.pathIndex.getAllNotePaths()) {
+			const fileName = this.pathIndex.getCommentFileName(notePath)!;
+			notesByFile.set(fileName, [...(notesByFile.get(fileName) ?? []), notePath]);
+		}
+
+		const renamed = new Map<string, string>();
+		const taken = new Set<string>();
+		const oldFiles: string[] = [];
+		const shared: string[] = [];
+
+		for (const [fileName, notePaths] of notesByFile) {
+			const oldPath = this.sidecarPath(fileName);
+			const raw = (await this.vault.adapter.exists(oldPath)) ? await this.vault.adapter.read(oldPath) : null;
+			const file = raw === null ? null : await this.tryParseCommentFile(raw, notePaths[0]!);
+			// Unreadable files keep their name; loading them quarantines them as usual
+			if (raw !== null && !file) continue;
+
+			let parts: Map<string, CommentData[]> | null = null;
+			if (file && notePaths.length > 1) {
+				const notes = [];
+				for (const notePath of notePaths) {
+					const text = (await this.vault.adapter.exists(notePath)) ? await this.vault.adapter.read(notePath) : '';
+					notes.push({notePath, text});
+				}
+				const fallback = notePaths.includes(file.sourceFile) ? file.sourceFile : notePaths[0]!;
+				parts = splitMergedComments(file.comments, notes, fallback);
+				shared.push(`${notePaths.join(' and ')} (unmatched comments kept with ${fallback})`);
+			}
+
+			for (const notePath of notePaths) {
+				const newName = sidecarFileName(notePath, taken);
+				taken.add(newName);
+				renamed.set(notePath, newName);
+				if (!file || raw === null) continue;
+
+				const content = parts
+					? await this.encode(JSON.stringify({...file, sourceFile: notePath, comments: parts.get(notePath) ?? []}, null, 2))
+					: raw;
+				await writeAtomic(this.vault, normalizePath(`${this.basePath}/${newName}`), content);
+			}
+			if (file) oldFiles.push(oldPath);
+		}
+
+		await this.pathIndex.replaceFileNames(renamed);
+		for (const path of oldFiles) {
+			await removeWithBackup(this.vault, path);
+		}
+		if (shared.length > 0) {
+			new Notice(`Some notes were sharing one comment file and have been separated: ${shared.join('; ')}.`);
+		}
+	}
+
+	private async decode(raw: string): Promise<string> {
+		if (!isEncrypted(raw)) return raw;
+		if (!this.cipher) throw new LockedError();
+		return this.cipher.decrypt(raw);
+	}
+
+	private async encode(text: string): Promise<string> {
+		if (!this.encrypted) return text;
+		if (!this.cipher) throw new LockedError();
+		return this.cipher.encrypt(text);
+	}
+
+	/** Decrypts what can be decrypted; damaged files are salvaged from whatever text they have. */
+	private async decodeForSalvage(raw: string): Promise<string> {
 		try {
-			await this.vault.adapter.rmdir(this.basePath, false);
+			return await this.decode(raw);
 		} catch {
-			// Directory might not be empty or removable — ignore
+			return raw;
 		}
+	}
 
-		// Phase 6: Reinitialize store with new basePath
-		this.reinitialize(newBasePath);
-		await this.pathIndex.load();
+	private getKeyFilePath(): string {
+		return normalizePath(`${this.basePath}/${KEY_FILE}`);
+	}
 
-		return copies.length;
+	/** Where the sidecar an index entry names lives. */
+	private sidecarPath(fileName: string): string {
+		return normalizePath(this.layout === 'adjacent' ? fileName : `${this.basePath}/${fileName}`);
+	}
+
+	/** The index entry for a sidecar at `path`; the inverse of `sidecarPath`. */
+	private fileNameOf(path: string): string {
+		return this.layout === 'adjacent' ? path : path.substring(this.basePath.length + 1);
+	}
+
+	/**
+	 * Sidecar files on disk, including conflict copies: everything in the
+	 * storage folder, plus in the adjacent layout the sidecars next to notes.
+	 */
+	private async listSidecarFiles(): Promise<string[]> {
+		const stored = await this.vault.adapter.exists(this.basePath)
+			? (await this.vault.adapter.list(this.basePath)).files
+			: [];
+		if (this.layout === 'adjacent') return [...await listAdjacentSidecars(this.vault), ...stored];
+		return stored;
 	}
 
-	private reinitialize(newBasePath: string): void {
+	private currentAuthor(): {author?: CommentAuthor} {
+		const author = this.authorFn?.();
+		return author ? {author} : {};
+	}
+
+	private reinitialize(newBasePath: string, newLayout: StorageLayout): void {
 		this.basePath = newBasePath;
-		this.pathIndex = new PathIndex(this.vault, this.basePath);
+		this.layout = newLayout;
+		this.pathIndex = new PathIndex(this.vault, this.basePath, this.layout);
+		this.trash = new CommentTrash(this.vault, this.basePath, this.codec);
 		this.cache.clear();
+		this.unreadableFiles.clear();
+		this.synced.clear();
+		this.history.clear();
 	}
 
 	private async loadCommentFile(notePath: string): Promise<CommentFile | null> {
 		const cached = this.cache.get(notePath);
 		if (cached) return cached;
+		if (this.unreadableFiles.has(notePath) || this.isLocked) return null;
 
 		const fileName = this.pathIndex.getCommentFileName(notePath);
 		if (!fileName) return null;
 
-		const filePath = normalizePath(`${this.basePath}/${fileName}`);
+		const filePath = this.sidecarPath(fileName);
 		if (!(await this.vault.adapter.exists(filePath))) return null;
 
+		let raw: string;
 		try {
-			const raw = await this.vault.adapter.read(filePath);
-			const file = JSON.parse(raw) as CommentFile;
+			raw = await this.vault.adapter.read(filePath);
+		} catch {
+			return null;
+		}
+
+		// Encrypted with a key we don't have (yet): leave the file alone until it can be decrypted
+		if (isEncrypted(raw)) {
+			try {
+				await this.decode(raw);
+			} catch {
+				this.unreadableFiles.set(notePath, `Comments for ${notePath} are encrypted with a different passphrase and cannot be changed.`);
+				new Notice(`Comments for ${notePath} could not be decrypted. They were left as they are; unlock with the passphrase they were encrypted with to read them.`);
+				return null;
+			}
+		}
+
+		try {
+			const {file, migrated} = await this.parseCommentFile(raw, notePath);
 			this.cache.set(notePath, file);
+			this.synced.set(notePath, {mtime: (await this.vault.adapter.stat(filePath))?.mtime ?? 0, content: raw});
+			if (migrated) {
+				// Persist the upgraded schema so the migration only runs once
+				this.scheduleSave(notePath);
+			}
 			return file;
+		} catch (e) {
+			if (e instanceof UnsupportedVersionError) {
+				this.unreadableFiles.set(notePath, `Comments for ${notePath} were written by a newer version of Marginalia and cannot be changed.`);
+				new Notice(e.message);
+				return null;
+			}
+
+			// A git merge left conflict markers: merge both sides by comment id
+			const sides = splitConflictMarkers(raw);
+			const ours = sides && await this.tryParseCommentFile(sides.ours, notePath);
+			const theirs = sides && await this.tryParseCommentFile(sides.theirs, notePath);
+			if (sides && ours && theirs) {
+				const base = sides.base === null ? null : await this.tryParseCommentFile(sides.base, notePath);
+				const file = mergeCommentFiles(base, ours, theirs, this.trash.getDeletedIds(notePath));
+				this.cache.set(notePath, file);
+				this.scheduleSave(notePath);
+				new Notice(`Merged conflicting versions of the comments for ${notePath}.`);
+				return file;
+			}
+
+			// Unreadable: move it aside so the next save cannot overwrite it
+			if (!(await this.vault.adapter.exists(filePath))) return null;
+			await quarantineFile(this.vault, this.basePath, filePath);
+
+			const backup = await readBackup(this.vault, filePath);
+			const restored = backup === null ? null : await this.tryParseCommentFile(backup, notePath);
+			if (restored) {
+				this.cache.set(notePath, restored);
+				await this.saveCommentFile(notePath);
+				new Notice(`Comments for ${notePath} could not be read and were restored from the backup. The unreadable file was moved to quarantine.`);
+				return restored;
+			}
+
+			new Notice(`Comments for ${notePath} could not be read and were moved to quarantine. Use "Recover quarantined comments" to restore what can be salvaged.`);
+			return null;
+		}
+	}
+
+	private async parseCommentFile(raw: string, notePath: string): Promise<{file: CommentFile; migrated: boolean}> {
+		const what = `Comments for ${notePath}`;
+		const {data, migrated} = migrateCommentFile(JSON.parse(await this.decode(raw)), what);
+		return {file: validateCommentFile(data, what), migrated};
+	}
+
+	private async tryParseCommentFile(raw: string, notePath: string): Promise<CommentFile | null> {
+		try {
+			return (await this.parseCommentFile(raw, notePath)).file;
 		} catch {
 			return null;
 		}
@@ -309,12 +1203,18 @@ export class CommentStore {
 	private async getOrCreateCommentFile(notePath: string): Promise<CommentFile> {
 		const existing = await this.loadCommentFile(notePath);
 		if (existing) return existing;
+		if (this.isLocked) throw new LockedError();
+		const unreadable = this.unreadableFiles.get(notePath);
+		if (unreadable) throw new Error(unreadable);
+		if (this.pathIndex.isReadOnly) {
+			throw new Error(`Comments for ${notePath} were written by a newer version of Marginalia and cannot be changed.`);
+		}
 
 		this.pathIndex.getOrCreateCommentFileName(notePath);
 		await this.pathIndex.save();
 
 		const file: CommentFile = {
-			version: 1,
+			version: COMMENT_FILE_VERSION,
 			sourceFile: notePath,
 			comments: [],
 		};
@@ -335,17 +1235,24 @@ export class CommentStore {
 
 	private async saveCommentFile(notePath: string): Promise<void> {
 		const file = this.cache.get(notePath);
-		if (!file) return;
+		if (!file || this.unreadableFiles.has(notePath)) return;
 
 		const fileName = this.pathIndex.getCommentFileName(notePath);
 		if (!fileName) return;
 
-		const filePath = normalizePath(`${this.basePath}/${fileName}`);
-		await this.vault.adapter.write(filePath, JSON.stringify(file, null, 2));
+		const filePath = this.sidecarPath(fileName);
+		const content = await this.encode(JSON.stringify(file, null, 2));
+		this.saving.add(notePath);
+		try {
+			await writeAtomic(this.vault, filePath, content);
+			this.synced.set(notePath, {mtime: (await this.vault.adapter.stat(filePath))?.mtime ?? 0, content});
+		} finally {
+			this.saving.delete(notePath);
+		}
 	}
 }
 
-function generateId(): string {
+export function generateId(): string {
 	const bytes = new Uint8Array(4);
 	crypto.getRandomValues(bytes);
 	return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
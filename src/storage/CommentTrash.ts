@@ -0,0 +1,140 @@
+import {normalizePath, Notice, type Vault} from 'obsidian';
+import type {CommentData, TrashData, TrashEntry} from '../types';
+import {TRASH_VERSION} from '../types';
+import {isRecord, isValidComment} from './validation';
+import {quarantineFile} from './quarantine';
+import {writeAtomic} from './atomicWrite';
+import {LockedError, type TextCodec} from './encryption';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deleted comments, kept in `_trash.json` next to the sidecars until they are
+ * restored, purged, or older than the retention period.
+ */
+export class CommentTrash {
+	private data: TrashData;
+	private basePath: string;
+	private vault: Vault;
+	private codec: TextCodec | null;
+	// Set while the trash is encrypted and locked; saving would replace it with an empty one
+	private locked = false;
+
+	constructor(vault: Vault, basePath: string, codec: TextCodec | null = null) {
+		this.vault = vault;
+		this.basePath = basePath;
+		this.codec = codec;
+		this.data = {version: TRASH_VERSION, entries: []};
+	}
+
+	async load(): Promise<void> {
+		const trashPath = this.getTrashPath();
+		if (!(await this.vault.adapter.exists(trashPath))) return;
+
+		this.locked = false;
+		try {
+			let text = await this.vault.adapter.read(trashPath);
+			if (this.codec) text = await this.codec.decode(text);
+			const raw = JSON.parse(text) as unknown;
+			if (!isRecord(raw) || !Array.isArray(raw.entries)) {
+				throw new Error('Missing "entries" list');
+			}
+			this.data = {version: TRASH_VERSION, entries: raw.entries.filter(isValidEntry)};
+		} catch (e) {
+			this.data = {version: TRASH_VERSION, entries: []};
+			if (e instanceof LockedError) {
+				this.locked = true;
+				return;
+			}
+			await quarantineFile(this.vault, this.basePath, trashPath);
+			new Notice('The comment trash could not be read and was moved to quarantine.');
+		}
+	}
+
+	getEntries(): TrashEntry[] {
+		return [...this.data.entries].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+	}
+
+	/** Ids of every comment of a note that is in the trash, so merges can tell deleted comments from new ones. */
+	getDeletedIds(notePath: string): Set<string> {
+		return new Set(this.data.entries
+			.filter(e => e.notePath === notePath)
+			.flatMap(e => e.comments.map(c => c.id)));
+	}
+
+	async add(notePath: string, comments: CommentData[]): Promise<void> {
+		if (comments.length === 0) return;
+		this.data.entries.push({
+			id: comments[0]!.id,
+			notePath,
+			deletedAt: new Date().toISOString(),
+			comments,
+		});
+		await this.save();
+	}
+
+	async remove(entryId: string): Promise<TrashEntry | null> {
+		const entry = this.data.entries.find(e => e.id === entryId);
+		if (!entry) return null;
+		this.data.entries = this.data.entries.filter(e => e !== entry);
+		await this.save();
+		return entry;
+	}
+
+	/** Drops entries whose comments are back in the note, e.g. after an undo. */
+	async discardComments(notePath: string, commentIds: string[]): Promise<void> {
+		const ids = new Set(commentIds);
+		const kept = this.data.entries.filter(e => e.notePath !== notePath || !ids.has(e.id));
+		if (kept.length === this.data.entries.length) return;
+		this.data.entries = kept;
+		await this.save();
+	}
+
+	async renamePath(oldPath: string, newPath: string): Promise<void> {
+		let changed = false;
+		for (const entry of this.data.entries) {
+			if (entry.notePath === oldPath) {
+				entry.notePath = newPath;
+				changed = true;
+			}
+		}
+		if (changed) await this.save();
+	}
+
+	/** Permanently removes entries deleted more than `days` ago. Returns the number removed. */
+	async purgeOlderThan(days: number): Promise<number> {
+		const cutoff = new Date(Date.now() - days * DAY_MS).toISOString();
+		const kept = this.data.entries.filter(e => e.deletedAt >= cutoff);
+		const purged = this.data.entries.length - kept.length;
+		if (purged > 0) {
+			this.data.entries = kept;
+			await this.save();
+		}
+		return purged;
+	}
+
+	async clear(): Promise<void> {
+		this.data.entries = [];
+		await this.save();
+	}
+
+	private async save(): Promise<void> {
+		if (this.locked) return;
+		const content = JSON.stringify(this.data, null, 2);
+		await writeAtomic(this.vault, this.getTrashPath(), this.codec ? await this.codec.encode(content) : content);
+	}
+
+	private getTrashPath(): string {
+		return normalizePath(`${this.basePath}/_trash.json`);
+	}
+}
+
+function isValidEntry(value: unknown): value is TrashEntry {
+	return isRecord(value)
+		&& typeof value.id === 'string'
+		&& typeof value.notePath === 'string'
+		&& typeof value.deletedAt === 'string'
+		&& Array.isArray(value.comments)
+		&& value.comments.length > 0
+		&& value.comments.every(isValidComment);
+}
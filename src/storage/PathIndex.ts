@@ -1,31 +1,162 @@
-import {normalizePath, type Vault} from 'obsidian';
+import {normalizePath, Notice, type Vault} from 'obsidian';
 import type {PathIndexData} from '../types';
+import {PATH_INDEX_VERSION} from '../types';
+import {migratePathIndex, UnsupportedVersionError} from './migrations';
+import {salvageSourceFile, validatePathIndex} from './validation';
+import {quarantineFile} from './quarantine';
+import {isConflictCopy} from './conflicts';
+import {readBackup, writeAtomic} from './atomicWrite';
+import {sidecarFileName} from './naming';
+import {adjacentSidecarPath, listAdjacentSidecars, type StorageLayout} from './layout';
+
+// Indexes from before this version use `a__b.md.json` names, which can collide
+const HASHED_NAMES_VERSION = 2;
 
 export class PathIndex {
 	private data: PathIndexData;
 	private basePath: string;
+	private layout: StorageLayout;
 	private vault: Vault;
+	// Set when the index was written by a newer plugin version; saving would lose data
+	private readOnly = false;
+	// Content last read from or written to disk, to tell our writes apart from synced ones
+	private synced: {mtime: number; content: string} | null = null;
+	// Set when the sidecars still have old-style names; the index is saved once they are renamed
+	private legacyNames = false;
 
-	constructor(vault: Vault, basePath: string) {
+	constructor(vault: Vault, basePath: string, layout: StorageLayout = 'central') {
 		this.vault = vault;
 		this.basePath = basePath;
-		this.data = {version: 1, mappings: {}};
+		this.layout = layout;
+		this.data = {version: PATH_INDEX_VERSION, mappings: {}};
 	}
 
 	async load(): Promise<void> {
 		const indexPath = this.getIndexPath();
-		if (await this.vault.adapter.exists(indexPath)) {
-			try {
-				const raw = await this.vault.adapter.read(indexPath);
-				this.data = JSON.parse(raw) as PathIndexData;
-			} catch {
-				this.data = {version: 1, mappings: {}};
+		if (!(await this.vault.adapter.exists(indexPath))) return;
+
+		let raw: string;
+		try {
+			raw = await this.vault.adapter.read(indexPath);
+		} catch {
+			return;
+		}
+		this.synced = {mtime: (await this.vault.adapter.stat(indexPath))?.mtime ?? 0, content: raw};
+
+		try {
+			const {data, migrated, fromVersion} = this.parse(raw);
+			this.data = data;
+			this.legacyNames = fromVersion < HASHED_NAMES_VERSION && Object.keys(data.mappings).length > 0;
+			if (migrated && !this.legacyNames) {
+				await this.save();
+			}
+		} catch (e) {
+			this.data = {version: PATH_INDEX_VERSION, mappings: {}};
+			if (e instanceof UnsupportedVersionError) {
+				this.readOnly = true;
+				new Notice(e.message);
+				return;
 			}
+			// Keep the broken index for inspection, then restore the backup or rebuild from the sidecars
+			await quarantineFile(this.vault, this.basePath, indexPath);
+			const backup = await readBackup(this.vault, indexPath);
+			const restored = backup === null ? null : this.tryParse(backup);
+			if (restored) {
+				this.data = restored;
+				await this.save();
+				new Notice('The comment index could not be read and was moved to quarantine. Restored it from the backup.');
+				return;
+			}
+			const count = await this.rebuildFromSidecars();
+			await this.save();
+			new Notice(`The comment index could not be read and was moved to quarantine. Rebuilt it from ${count} comment file(s).`);
+		}
+	}
+
+	private parse(raw: string): {data: PathIndexData; migrated: boolean; fromVersion: number} {
+		const {data, migrated, fromVersion} = migratePathIndex(JSON.parse(raw));
+		return {data: validatePathIndex(data, 'Comment index'), migrated, fromVersion};
+	}
+
+	private tryParse(raw: string): PathIndexData | null {
+		try {
+			return this.parse(raw).data;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Recreates mappings from the "sourceFile" recorded in each sidecar.
+	 * Returns the number of sidecars that could be mapped.
+	 */
+	async rebuildFromSidecars(): Promise<number> {
+		let files: string[];
+		try {
+			files = this.layout === 'adjacent'
+				? await listAdjacentSidecars(this.vault)
+				: (await this.vault.adapter.list(this.basePath)).files;
+		} catch {
+			return 0;
+		}
+
+		let count = 0;
+		const indexPath = this.getIndexPath();
+		for (const filePath of files) {
+			if (filePath === indexPath || !filePath.endsWith('.json') || isConflictCopy(filePath)) continue;
+			const notePath = salvageSourceFile(await this.vault.adapter.read(filePath));
+			if (!notePath) continue;
+			this.data.mappings[notePath] = this.layout === 'adjacent' ? filePath : filePath.substring(this.basePath.length + 1);
+			count++;
+		}
+		return count;
+	}
+
+	/**
+	 * Reloads the index if another device or tool changed it on disk.
+	 * Returns true when the mappings were replaced.
+	 */
+	async reloadIfChanged(): Promise<boolean> {
+		const indexPath = this.getIndexPath();
+		const stat = await this.vault.adapter.stat(indexPath);
+		if (!stat || stat.mtime === this.synced?.mtime) return false;
+
+		const raw = await this.vault.adapter.read(indexPath);
+		if (raw === this.synced?.content) {
+			this.synced.mtime = stat.mtime;
+			return false;
 		}
+
+		this.data = {version: PATH_INDEX_VERSION, mappings: {}};
+		this.readOnly = false;
+		this.legacyNames = false;
+		await this.load();
+		return true;
+	}
+
+	get isReadOnly(): boolean {
+		return this.readOnly;
+	}
+
+	get hasLegacyNames(): boolean {
+		return this.legacyNames;
+	}
+
+	/** Points notes at their renamed sidecars and saves the index in the current version. */
+	async replaceFileNames(fileNames: Map<string, string>): Promise<void> {
+		for (const [notePath, fileName] of fileNames) {
+			this.data.mappings[notePath] = fileName;
+		}
+		this.legacyNames = false;
+		await this.save();
 	}
 
 	async save(): Promise<void> {
-		await this.vault.adapter.write(this.getIndexPath(), JSON.stringify(this.data, null, 2));
+		if (this.readOnly) return;
+		const indexPath = this.getIndexPath();
+		const content = JSON.stringify(this.data, null, 2);
+		await writeAtomic(this.vault, indexPath, content);
+		this.synced = {mtime: (await this.vault.adapter.stat(indexPath))?.mtime ?? 0, content};
 	}
 
 	getCommentFileName(notePath: string): string | undefined {
@@ -36,14 +167,21 @@ export class PathIndex {
 		const existing = this.data.mappings[notePath];
 		if (existing) return existing;
 
-		const fileName = notePath.replace(/\//g, '__') + '.json';
+		const fileName = this.layout === 'adjacent'
+			? adjacentSidecarPath(notePath)
+			: sidecarFileName(notePath, new Set(Object.values(this.data.mappings)));
 		this.data.mappings[notePath] = fileName;
 		return fileName;
 	}
 
+	async setCommentFileName(notePath: string, fileName: string): Promise<void> {
+		this.data.mappings[notePath] = fileName;
+		await this.save();
+	}
+
 	getCommentFilePath(notePath: string): string {
 		const fileName = this.getOrCreateCommentFileName(notePath);
-		return normalizePath(`${this.basePath}/${fileName}`);
+		return normalizePath(this.layout === 'adjacent' ? fileName : `${this.basePath}/${fileName}`);
 	}
 
 	async renamePath(oldPath: string, newPath: string): Promise<void> {
@@ -64,6 +202,10 @@ export class PathIndex {
 		return fileName;
 	}
 
+	getAllNotePaths(): string[] {
+		return Object.keys(this.data.mappings);
+	}
+
 	getNotePathForFileName(fileName: string): string | undefined {
 		for (const [notePath, fn] of Object.entries(this.data.mappings)) {
 			if (fn === fileName) return notePath;
@@ -0,0 +1,94 @@
+import type {Vault} from 'obsidian';
+
+const TEMP_SUFFIX = '.tmp';
+const BACKUP_SUFFIX = '.bak';
+
+/**
+ * Replaces a file without ever leaving it half written. The content goes to
+ * a temporary file first, the current file becomes the backup, and the
+ * temporary file is renamed into place. A crash at any point leaves either
+ * the old file, the backup or a complete temporary file on disk, which
+ * `repairInterruptedWrites` puts back on the next start.
+ */
+export async function writeAtomic(vault: Vault, filePath: string, content: string): Promise<void> {
+	const temp = filePath + TEMP_SUFFIX;
+	const backup = filePath + BACKUP_SUFFIX;
+
+	await vault.adapter.write(temp, content);
+	if (await vault.adapter.exists(filePath)) {
+		if (await vault.adapter.exists(backup)) {
+			await vault.adapter.remove(backup);
+		}
+		await vault.adapter.rename(filePath, backup);
+	}
+	await vault.adapter.rename(temp, filePath);
+}
+
+/** Removes a file together with its backup and any leftover temporary file. */
+export async function removeWithBackup(vault: Vault, filePath: string): Promise<void> {
+	for (const path of [filePath, filePath + BACKUP_SUFFIX, filePath + TEMP_SUFFIX]) {
+		if (await vault.adapter.exists(path)) {
+			await vault.adapter.remove(path);
+		}
+	}
+}
+
+/** Removes the backup of a file, e.g. after rewriting it in a form the backup must not keep. */
+export async function discardBackup(vault: Vault, filePath: string): Promise<void> {
+	if (await vault.adapter.exists(filePath + BACKUP_SUFFIX)) {
+		await vault.adapter.remove(filePath + BACKUP_SUFFIX);
+	}
+}
+
+export async function readBackup(vault: Vault, filePath: string): Promise<string | null> {
+	const backup = filePath + BACKUP_SUFFIX;
+	if (!(await vault.adapter.exists(backup))) return null;
+	try {
+		return await vault.adapter.read(backup);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Finishes writes that were cut off by a crash. A file that is missing is
+ * restored from a complete temporary file, or else from a readable backup;
+ * leftover temporary files are removed. Returns the number of files restored.
+ */
+export async function repairInterruptedWrites(vault: Vault, dir: string): Promise<number> {
+	let listed: {files: string[]};
+	try {
+		listed = await vault.adapter.list(dir);
+	} catch {
+		return 0;
+	}
+
+	let restored = 0;
+	for (const temp of listed.files.filter(f => f.endsWith(TEMP_SUFFIX))) {
+		const filePath = temp.substring(0, temp.length - TEMP_SUFFIX.length);
+		if (!(await vault.adapter.exists(filePath)) && isCompleteJson(await vault.adapter.read(temp))) {
+			await vault.adapter.rename(temp, filePath);
+			restored++;
+		} else {
+			await vault.adapter.remove(temp);
+		}
+	}
+
+	for (const backup of listed.files.filter(f => f.endsWith(BACKUP_SUFFIX))) {
+		const filePath = backup.substring(0, backup.length - BACKUP_SUFFIX.length);
+		if (!(await vault.adapter.exists(filePath)) && isCompleteJson(await vault.adapter.read(backup))) {
+			await vault.adapter.copy(backup, filePath);
+			restored++;
+		}
+	}
+	return restored;
+}
+
+function isCompleteJson(text: string): boolean {
+	try {
+		JSON.parse(text);
+		return true;
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,35 @@
+import {normalizePath, type Vault} from 'obsidian';
+
+const CONFLICT_MARKER = '.conflict-';
+
+// Conflict copy names written by this plugin and common sync tools
+const CONFLICT_PATTERNS: RegExp[] = [
+	/^(.+)\.conflict-[\dTZ-]+\.json$/, // Marginalia
+	/^(.+)\.sync-conflict-[^.]+\.json$/, // Syncthing
+	/^(.+) \([^)]*conflicted copy[^)]*\)\.json$/i, // Dropbox
+];
+
+/**
+ * Saves the disk version of a sidecar next to it when it changed while the
+ * in-memory copy had unsaved edits, so the next save cannot overwrite it.
+ */
+export async function writeConflictCopy(vault: Vault, filePath: string, content: string): Promise<string> {
+	const stem = filePath.replace(/\.json$/, '');
+	const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+	const dest = normalizePath(`${stem}${CONFLICT_MARKER}${stamp}.json`);
+	await vault.adapter.write(dest, content);
+	return dest;
+}
+
+/** Returns the sidecar name a conflict copy belongs to, or null if it is not one. */
+export function conflictOriginalName(fileName: string): string | null {
+	for (const pattern of CONFLICT_PATTERNS) {
+		const match = pattern.exec(fileName);
+		if (match) return `${match[1]!}.json`;
+	}
+	return null;
+}
+
+export function isConflictCopy(fileName: string): boolean {
+	return conflictOriginalName(fileName.substring(fileName.lastIndexOf('/') + 1)) !== null;
+}
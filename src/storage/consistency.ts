@@ -0,0 +1,44 @@
+import type {CommentData} from '../types';
+import {isAnchoredComment} from '../types';
+
+/** A disagreement between the path index, the sidecar files and the vault. */
+export type StorageIssue =
+	/** A sidecar for an existing note that the index doesn't know about */
+	| {type: 'missing-index-entry'; fileName: string; notePath: string}
+	/** An unindexed sidecar for a note that already has an indexed one */
+	| {type: 'duplicate-sidecar'; fileName: string; notePath: string}
+	/** The sidecar's "sourceFile" doesn't match the note it is indexed under */
+	| {type: 'source-mismatch'; fileName: string; notePath: string; sourceFile: string | null}
+	/** An index entry whose sidecar file is gone */
+	| {type: 'missing-sidecar'; fileName: string; notePath: string}
+	/** The note was moved while the plugin wasn't running */
+	| {type: 'renamed'; fileName: string; oldPath: string; newPath: string}
+	/** A sidecar whose note no longer exists anywhere in the vault */
+	| {type: 'leftover'; fileName: string; notePath: string | null; commentCount: number};
+
+/**
+ * Looks for the file a missing note was moved to, among files without
+ * comments of their own. A single file with the same name wins; failing that,
+ * a single Markdown file that still contains every anchored comment's text.
+ */
+export async function findRenamedNote(
+	notePath: string,
+	comments: CommentData[],
+	candidates: string[],
+	read: (path: string) => Promise<string>
+): Promise<string | null> {
+	const name = notePath.substring(notePath.lastIndexOf('/') + 1);
+	const sameName = candidates.filter(p => p.substring(p.lastIndexOf('/') + 1) === name);
+	if (sameName.length === 1) return sameName[0]!;
+
+	const quotes = comments.filter(isAnchoredComment).map(c => c.target.exact);
+	if (quotes.length === 0 || !notePath.endsWith('.md')) return null;
+
+	const matches: string[] = [];
+	for (const path of candidates) {
+		if (!path.endsWith('.md')) continue;
+		const text = await read(path);
+		if (quotes.every(q => text.includes(q))) matches.push(path);
+	}
+	return matches.length === 1 ? matches[0]! : null;
+}
@@ -0,0 +1,111 @@
+import {arrayBufferToBase64, base64ToArrayBuffer} from 'obsidian';
+import {isRecord} from './validation';
+
+/** Stored in the storage folder while encryption is on; holds the key salt, never the key. */
+export const KEY_FILE = '_encryption.json';
+
+const KEY_FILE_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
+const CHECK_TEXT = 'marginalia';
+// Encrypted files are written with this exact prefix, so they can be told apart without parsing
+const ENVELOPE_PREFIX = '{"encrypted":"AES-GCM"';
+
+export interface KeyFileData {
+	version: typeof KEY_FILE_VERSION;
+	salt: string;
+	iterations: number;
+	/** A known text encrypted with the key, to tell a wrong passphrase from a damaged file */
+	check: string;
+}
+
+/** How file contents are turned into what is stored on disk, and back. */
+export interface TextCodec {
+	decode(raw: string): Promise<string>;
+	encode(text: string): Promise<string>;
+}
+
+export class LockedError extends Error {
+	constructor() {
+		super('Comments are encrypted. Unlock them with the passphrase first.');
+		this.name = 'LockedError';
+	}
+}
+
+export function isEncrypted(raw: string): boolean {
+	return raw.trimStart().startsWith(ENVELOPE_PREFIX);
+}
+
+/** AES-GCM encryption of comment files with a key derived from a passphrase (PBKDF2, SHA-256). */
+export class CommentCipher {
+	private key: CryptoKey;
+
+	private constructor(key: CryptoKey) {
+		this.key = key;
+	}
+
+	/** Makes a new key from a passphrase, and the key file that lets it be derived again. */
+	static async create(passphrase: string): Promise<{cipher: CommentCipher; keyFile: KeyFileData}> {
+		const salt = crypto.getRandomValues(new Uint8Array(16));
+		const cipher = new CommentCipher(await deriveKey(passphrase, salt, PBKDF2_ITERATIONS));
+		return {
+			cipher,
+			keyFile: {
+				version: KEY_FILE_VERSION,
+				salt: arrayBufferToBase64(salt.buffer),
+				iterations: PBKDF2_ITERATIONS,
+				check: await cipher.encrypt(CHECK_TEXT),
+			},
+		};
+	}
+
+	/** Derives the key described by a key file. Returns null when the passphrase is wrong. */
+	static async unlock(keyFile: KeyFileData, passphrase: string): Promise<CommentCipher | null> {
+		const salt = new Uint8Array(base64ToArrayBuffer(keyFile.salt));
+		const cipher = new CommentCipher(await deriveKey(passphrase, salt, keyFile.iterations));
+		try {
+			return (await cipher.decrypt(keyFile.check)) === CHECK_TEXT ? cipher : null;
+		} catch {
+			return null;
+		}
+	}
+
+	async encrypt(text: string): Promise<string> {
+		const iv = crypto.getRandomValues(new Uint8Array(12));
+		const data = await crypto.subtle.encrypt({name: 'AES-GCM', iv}, this.key, new TextEncoder().encode(text));
+		return JSON.stringify({encrypted: 'AES-GCM', iv: arrayBufferToBase64(iv.buffer), data: arrayBufferToBase64(data)});
+	}
+
+	/** Throws if the text was not encrypted with this key or has been altered. */
+	async decrypt(raw: string): Promise<string> {
+		const envelope = JSON.parse(raw) as unknown;
+		if (!isRecord(envelope) || typeof envelope.iv !== 'string' || typeof envelope.data !== 'string') {
+			throw new Error('Not an encrypted comment file');
+		}
+		const plain = await crypto.subtle.decrypt(
+			{name: 'AES-GCM', iv: new Uint8Array(base64ToArrayBuffer(envelope.iv))},
+			this.key,
+			base64ToArrayBuffer(envelope.data)
+		);
+		return new TextDecoder().decode(plain);
+	}
+}
+
+export function parseKeyFile(raw: string): KeyFileData {
+	const data = JSON.parse(raw) as unknown;
+	if (!isRecord(data) || data.version !== KEY_FILE_VERSION || typeof data.salt !== 'string'
+		|| typeof data.iterations !== 'number' || typeof data.check !== 'string') {
+		throw new Error('The encryption key file is damaged');
+	}
+	return data as unknown as KeyFileData;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+	const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+	return crypto.subtle.deriveKey(
+		{name: 'PBKDF2', salt, iterations, hash: 'SHA-256'},
+		material,
+		{name: 'AES-GCM', length: 256},
+		false,
+		['encrypt', 'decrypt']
+	);
+}
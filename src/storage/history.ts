@@ -0,0 +1,111 @@
+import type {CommentData} from '../types';
+
+const MAX_ENTRIES = 100;
+
+/**
+ * One user action, recorded as the comments it replaced (`before`) and the
+ * comments it produced (`after`). Undo swaps them back by id, so changes made
+ * to other comments in the meantime are left alone.
+ */
+export interface HistoryEntry {
+	label: string;
+	before: CommentData[];
+	after: CommentData[];
+}
+
+interface NoteHistory {
+	undo: HistoryEntry[];
+	redo: HistoryEntry[];
+}
+
+/** Undo and redo stacks for each note, kept for the current session. */
+export class CommentHistory {
+	private notes: Map<string, NoteHistory> = new Map();
+
+	record(notePath: string, label: string, before: CommentData[], after: CommentData[]): void {
+		let history = this.notes.get(notePath);
+		if (!history) {
+			history = {undo: [], redo: []};
+			this.notes.set(notePath, history);
+		}
+		history.undo.push({label, before: before.map(cloneComment), after: after.map(cloneComment)});
+		if (history.undo.length > MAX_ENTRIES) history.undo.shift();
+		history.redo = [];
+	}
+
+	canUndo(notePath: string): boolean {
+		return (this.notes.get(notePath)?.undo.length ?? 0) > 0;
+	}
+
+	canRedo(notePath: string): boolean {
+		return (this.notes.get(notePath)?.redo.length ?? 0) > 0;
+	}
+
+	/** Pops the last action and moves it to the redo stack. */
+	takeUndo(notePath: string): HistoryEntry | null {
+		const history = this.notes.get(notePath);
+		const entry = history?.undo.pop();
+		if (!history || !entry) return null;
+		history.redo.push(entry);
+		return entry;
+	}
+
+	/** Pops the last undone action and moves it back to the undo stack. */
+	takeRedo(notePath: string): HistoryEntry | null {
+		const history = this.notes.get(notePath);
+		const entry = history?.redo.pop();
+		if (!history || !entry) return null;
+		history.undo.push(entry);
+		return entry;
+	}
+
+	rename(oldPath: string, newPath: string): void {
+		const history = this.notes.get(oldPath);
+		if (!history) return;
+		this.notes.delete(oldPath);
+		this.notes.set(newPath, history);
+	}
+
+	/** Drops the actions that touched any of these comments, e.g. once they have moved to another note. */
+	forgetComments(notePath: string, ids: ReadonlySet<string>): void {
+		const history = this.notes.get(notePath);
+		if (!history) return;
+		const touches = (entry: HistoryEntry) => [...entry.before, ...entry.after].some(c => ids.has(c.id));
+		history.undo = history.undo.filter(entry => !touches(entry));
+		history.redo = history.redo.filter(entry => !touches(entry));
+	}
+
+	delete(notePath: string): void {
+		this.notes.delete(notePath);
+	}
+
+	clear(): void {
+		this.notes.clear();
+	}
+}
+
+/**
+ * Removes `remove` from the list and puts `add` in. A comment present in both
+ * is replaced where it stands; other added comments go at the end.
+ */
+export function applyHistoryChange(comments: CommentData[], remove: CommentData[], add: CommentData[]): CommentData[] {
+	const removeIds = new Set(remove.map(c => c.id));
+	const pending = new Map(add.map(c => [c.id, cloneComment(c)]));
+
+	const result: CommentData[] = [];
+	for (const c of comments) {
+		const replacement = pending.get(c.id);
+		if (replacement) {
+			result.push(replacement);
+			pending.delete(c.id);
+		} else if (!removeIds.has(c.id)) {
+			result.push(c);
+		}
+	}
+	result.push(...pending.values());
+	return result;
+}
+
+function cloneComment<T extends CommentData>(c: T): T {
+	return JSON.parse(JSON.stringify(c)) as T;
+}
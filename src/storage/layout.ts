@@ -0,0 +1,40 @@
+import {normalizePath, type Vault} from 'obsidian';
+
+/**
+ * 'central' keeps every sidecar in the storage folder; 'adjacent' keeps each
+ * one as a hidden file next to its note. The index, trash and quarantine
+ * always live in the storage folder.
+ */
+export type StorageLayout = 'central' | 'adjacent';
+
+const ADJACENT_MARKER = '.marginalia';
+
+/** `Folder/Note.md` -> `Folder/.Note.md.marginalia.json` */
+export function adjacentSidecarPath(notePath: string): string {
+	const slash = notePath.lastIndexOf('/');
+	return normalizePath(`${notePath.substring(0, slash + 1)}.${notePath.substring(slash + 1)}${ADJACENT_MARKER}.json`);
+}
+
+/**
+ * Lists the adjacent sidecars in the vault, along with conflict copies of
+ * them. Hidden files aren't tracked by Obsidian, so each folder is listed
+ * on disk.
+ */
+export async function listAdjacentSidecars(vault: Vault): Promise<string[]> {
+	const found: string[] = [];
+	for (const folder of vault.getAllFolders(true)) {
+		let listed: {files: string[]};
+		try {
+			listed = await vault.adapter.list(folder.path);
+		} catch {
+			continue;
+		}
+		for (const path of listed.files) {
+			const name = path.substring(path.lastIndexOf('/') + 1);
+			if (name.startsWith('.') && name.includes(ADJACENT_MARKER) && name.endsWith('.json')) {
+				found.push(normalizePath(path));
+			}
+		}
+	}
+	return found;
+}
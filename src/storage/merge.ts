@@ -0,0 +1,114 @@
+import type {CommentData, CommentFile} from '../types';
+import {COMMENT_FILE_VERSION, isAnchoredComment, isCanvasComment, isReplyComment} from '../types';
+
+/**
+ * Joins two versions of a comment file by comment id. When both sides have a
+ * comment, the one with the later `updatedAt` wins (ours on a tie). A comment
+ * that exists on only one side is kept if it was added there, and dropped if
+ * the other side deleted it: if `base` has it, or it is in `deletedIds` (the
+ * ids in the trash, which stand in for a base when there is none). Replies
+ * whose root was dropped are dropped with it.
+ */
+export function mergeCommentFiles(
+	base: CommentFile | null,
+	ours: CommentFile,
+	theirs: CommentFile,
+	deletedIds: ReadonlySet<string> = new Set()
+): CommentFile {
+	const baseIds = new Set([...base?.comments.map(c => c.id) ?? [], ...deletedIds]);
+	const theirsById = new Map(theirs.comments.map(c => [c.id, c]));
+	const oursIds = new Set(ours.comments.map(c => c.id));
+
+	const merged: CommentData[] = [];
+	for (const c of ours.comments) {
+		const other = theirsById.get(c.id);
+		if (other) {
+			merged.push(other.updatedAt > c.updatedAt ? other : c);
+		} else if (!baseIds.has(c.id)) {
+			merged.push(c);
+		}
+	}
+	for (const c of theirs.comments) {
+		if (!oursIds.has(c.id) && !baseIds.has(c.id)) {
+			merged.push(c);
+		}
+	}
+
+	const ids = new Set(merged.map(c => c.id));
+	return {
+		version: COMMENT_FILE_VERSION,
+		sourceFile: ours.sourceFile,
+		comments: merged.filter(c => !isReplyComment(c) || ids.has(c.parentId)),
+	};
+}
+
+/**
+ * Splits a file containing git merge conflict markers into its two sides,
+ * plus the common ancestor when the conflict was written in diff3 style.
+ * Returns null when the text has no conflict markers.
+ */
+export function splitConflictMarkers(raw: string): {base: string | null; ours: string; theirs: string} | null {
+	if (!/^<{7}( |$)/m.test(raw)) return null;
+
+	const ours: string[] = [];
+	const theirs: string[] = [];
+	const base: string[] = [];
+	let hasBase = false;
+	let section: 'common' | 'ours' | 'base' | 'theirs' = 'common';
+
+	for (const line of raw.split('\n')) {
+		if (/^<{7}( |$)/.test(line)) {
+			section = 'ours';
+		} else if (/^\|{7}( |$)/.test(line) && section === 'ours') {
+			section = 'base';
+			hasBase = true;
+		} else if (/^={7}$/.test(line) && (section === 'ours' || section === 'base')) {
+			section = 'theirs';
+		} else if (/^>{7}( |$)/.test(line) && section === 'theirs') {
+			section = 'common';
+		} else if (section === 'common') {
+			ours.push(line);
+			theirs.push(line);
+			base.push(line);
+		} else if (section === 'ours') {
+			ours.push(line);
+		} else if (section === 'base') {
+			base.push(line);
+		} else {
+			theirs.push(line);
+		}
+	}
+
+	return {
+		base: hasBase ? base.join('\n') : null,
+		ours: ours.join('\n'),
+		theirs: theirs.join('\n'),
+	};
+}
+
+/**
+ * Divides the comments of a file that several notes ended up sharing. A root
+ * goes to the one note whose text contains its quote (or, for a canvas
+ * comment, its item id); anything that can't be placed that way stays with
+ * `fallback`. Replies follow their root.
+ */
+export function splitMergedComments(
+	comments: CommentData[],
+	notes: Array<{notePath: string; text: string}>,
+	fallback: string
+): Map<string, CommentData[]> {
+	const owners = new Map<string, string>();
+	for (const c of comments) {
+		if (isReplyComment(c)) continue;
+		const needle = isAnchoredComment(c) ? c.target.exact : isCanvasComment(c) ? `"${c.target.id}"` : null;
+		const matches = needle ? notes.filter(n => n.text.includes(needle)) : [];
+		owners.set(c.id, matches.length === 1 ? matches[0]!.notePath : fallback);
+	}
+
+	const parts = new Map<string, CommentData[]>(notes.map(n => [n.notePath, []]));
+	for (const c of comments) {
+		const owner = owners.get(isReplyComment(c) ? c.parentId : c.id) ?? fallback;
+		parts.get(owner)?.push(c);
+	}
+	return parts;
+}
@@ -0,0 +1,88 @@
+import type {CommentFile, PathIndexData} from '../types';
+import {COMMENT_FILE_VERSION, PATH_INDEX_VERSION} from '../types';
+import {isRecord} from './validation';
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+export interface MigrationResult<T> {
+	data: T;
+	fromVersion: number;
+	migrated: boolean;
+}
+
+export class UnsupportedVersionError extends Error {
+	readonly version: number;
+	readonly supportedVersion: number;
+
+	constructor(what: string, version: number, supportedVersion: number) {
+		super(`${what} uses schema version ${version}, but this version of Marginalia only supports up to version ${supportedVersion}. Update the plugin to read it.`);
+		this.name = 'UnsupportedVersionError';
+		this.version = version;
+		this.supportedVersion = supportedVersion;
+	}
+}
+
+// Each entry upgrades data from version N to N + 1. Steps run in order until
+// the current version is reached, so a new schema only needs one new entry.
+const COMMENT_FILE_MIGRATIONS: Record<number, Migration> = {
+	// Unversioned files predate note comments: every root is an anchored comment
+	0: (data) => ({
+		...data,
+		version: 1,
+		comments: asArray(data.comments).map(c => {
+			if (!isRecord(c) || 'parentId' in c || 'kind' in c) return c;
+			return {...c, kind: 'anchored'};
+		}),
+	}),
+	// Version 2 adds canvas comments; the bump keeps older plugins from reading them as damaged
+	1: (data) => ({...data, version: 2}),
+};
+
+const PATH_INDEX_MIGRATIONS: Record<number, Migration> = {
+	0: (data) => ({
+		...data,
+		version: 1,
+		mappings: isRecord(data.mappings) ? data.mappings : {},
+	}),
+	// Version 2 switches to hashed sidecar names; the store renames the files after loading
+	1: (data) => ({...data, version: 2}),
+};
+
+export function migrateCommentFile(raw: unknown, what = 'Comment file'): MigrationResult<CommentFile> {
+	return runMigrations<CommentFile>(raw, COMMENT_FILE_VERSION, COMMENT_FILE_MIGRATIONS, what);
+}
+
+export function migratePathIndex(raw: unknown, what = 'Comment index'): MigrationResult<PathIndexData> {
+	return runMigrations<PathIndexData>(raw, PATH_INDEX_VERSION, PATH_INDEX_MIGRATIONS, what);
+}
+
+function runMigrations<T>(
+	raw: unknown,
+	currentVersion: number,
+	migrations: Record<number, Migration>,
+	what: string
+): MigrationResult<T> {
+	if (!isRecord(raw)) {
+		throw new Error(`${what} is not a JSON object`);
+	}
+
+	const fromVersion = typeof raw.version === 'number' ? raw.version : 0;
+	if (fromVersion > currentVersion) {
+		throw new UnsupportedVersionError(what, fromVersion, currentVersion);
+	}
+
+	let data = raw;
+	for (let version = fromVersion; version < currentVersion; version++) {
+		const step = migrations[version];
+		if (!step) {
+			throw new Error(`${what} cannot be upgraded from schema version ${version}`);
+		}
+		data = step(data);
+	}
+
+	return {data: data as T, fromVersion, migrated: fromVersion !== currentVersion};
+}
+
+function asArray(value: unknown): unknown[] {
+	return Array.isArray(value) ? value : [];
+}
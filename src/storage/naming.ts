@@ -0,0 +1,40 @@
+import {stripExtension} from '../interop/files';
+
+const MAX_SLUG_LENGTH = 40;
+
+/**
+ * Picks a sidecar file name for a note: a readable slug of the note's name
+ * plus a hash of its full path, e.g. `meeting-notes-3f9a1c2e.json`. The
+ * length is bounded however deep the note is. Names in `taken` are avoided
+ * by adding a counter, so two notes never share a file even if hashes match.
+ */
+export function sidecarFileName(notePath: string, taken: ReadonlySet<string>): string {
+	const base = `${slugify(notePath)}-${fnv1a(notePath)}`;
+	let fileName = `${base}.json`;
+	for (let n = 2; taken.has(fileName); n++) {
+		fileName = `${base}-${n}.json`;
+	}
+	return fileName;
+}
+
+function slugify(notePath: string): string {
+	const name = stripExtension(notePath.substring(notePath.lastIndexOf('/') + 1));
+	const slug = name
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}_-]+/gu, '-')
+		// Leading underscores are reserved for the index and trash files
+		.replace(/^[-_]+|-+$/g, '')
+		.substring(0, MAX_SLUG_LENGTH)
+		.replace(/-+$/, '');
+	return slug || 'note';
+}
+
+/** 32-bit FNV-1a hash of a string's UTF-16 code units, as 8 hex digits. */
+function fnv1a(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, '0');
+}
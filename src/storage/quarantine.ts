@@ -0,0 +1,33 @@
+import {normalizePath, type Vault} from 'obsidian';
+
+export const QUARANTINE_DIR = '_quarantine';
+
+/**
+ * Moves an unreadable file into the quarantine folder so the next save
+ * cannot overwrite it. The original file name is kept after a timestamp.
+ */
+export async function quarantineFile(vault: Vault, basePath: string, filePath: string): Promise<string> {
+	const dir = normalizePath(`${basePath}/${QUARANTINE_DIR}`);
+	if (!(await vault.adapter.exists(dir))) {
+		await vault.adapter.mkdir(dir);
+	}
+
+	const name = filePath.substring(filePath.lastIndexOf('/') + 1);
+	const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+	const dest = normalizePath(`${dir}/${stamp}__${name}`);
+	await vault.adapter.rename(filePath, dest);
+	return dest;
+}
+
+export function parseQuarantineName(path: string): {fileName: string; quarantinedAt: string | null} {
+	const name = path.substring(path.lastIndexOf('/') + 1);
+	const sep = name.indexOf('__');
+	if (sep === -1) return {fileName: name, quarantinedAt: null};
+
+	// 2024-01-02T03-04-05-678Z -> 2024-01-02T03:04:05.678Z
+	const stamp = name.substring(0, sep).replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, 'T$1:$2:$3.$4Z');
+	return {
+		fileName: name.substring(sep + 2),
+		quarantinedAt: isNaN(Date.parse(stamp)) ? null : stamp,
+	};
+}
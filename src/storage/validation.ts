@@ -0,0 +1,162 @@
+import type {CommentData, CommentFile, PathIndexData} from '../types';
+
+export class InvalidSidecarError extends Error {
+	constructor(what: string, problem: string) {
+		super(`${what} is invalid: ${problem}`);
+		this.name = 'InvalidSidecarError';
+	}
+}
+
+export function validateCommentFile(data: CommentFile, what: string): CommentFile {
+	if (typeof data.sourceFile !== 'string') {
+		throw new InvalidSidecarError(what, 'missing "sourceFile"');
+	}
+	if (!Array.isArray(data.comments)) {
+		throw new InvalidSidecarError(what, 'missing "comments" list');
+	}
+	const ids = new Set<string>();
+	data.comments.forEach((c: unknown, i) => {
+		const problem = findCommentProblem(c);
+		if (problem) {
+			throw new InvalidSidecarError(what, `comment ${i + 1} ${problem}`);
+		}
+		const id = (c as CommentData).id;
+		if (ids.has(id)) {
+			throw new InvalidSidecarError(what, `duplicate comment id "${id}"`);
+		}
+		ids.add(id);
+	});
+	return data;
+}
+
+export function validatePathIndex(data: PathIndexData, what: string): PathIndexData {
+	if (!isRecord(data.mappings)) {
+		throw new InvalidSidecarError(what, 'missing "mappings"');
+	}
+	for (const [notePath, fileName] of Object.entries(data.mappings)) {
+		if (typeof fileName !== 'string' || !fileName) {
+			throw new InvalidSidecarError(what, `invalid entry for "${notePath}"`);
+		}
+	}
+	return data;
+}
+
+export function isValidComment(value: unknown): value is CommentData {
+	return findCommentProblem(value) === null;
+}
+
+function findCommentProblem(c: unknown): string | null {
+	if (!isRecord(c)) return 'is not an object';
+	if (typeof c.id !== 'string' || !c.id) return 'has no id';
+	if (typeof c.body !== 'string') return 'has no body';
+	if (typeof c.createdAt !== 'string' || typeof c.updatedAt !== 'string') return 'has no timestamps';
+	if (c.author !== undefined && !(isRecord(c.author) && typeof c.author.name === 'string')) {
+		return 'has an invalid author';
+	}
+	if (c.revisions !== undefined && !(Array.isArray(c.revisions) && c.revisions.every(isValidRevision))) {
+		return 'has invalid revisions';
+	}
+
+	if ('parentId' in c) {
+		return typeof c.parentId === 'string' ? null : 'has an invalid parentId';
+	}
+
+	if (c.resolution !== undefined && c.resolution !== 'open' && c.resolution !== 'resolved') {
+		return 'has an invalid resolution';
+	}
+	if (c.kind === 'note') return null;
+	if (c.kind === 'canvas') {
+		const target = c.target;
+		if (!isRecord(target) || (target.type !== 'node' && target.type !== 'edge')
+			|| typeof target.id !== 'string' || typeof target.text !== 'string') {
+			return 'has an invalid canvas target';
+		}
+		if (c.status !== 'active' && c.status !== 'orphaned') return 'has an invalid status';
+		return null;
+	}
+	if (c.kind !== undefined && c.kind !== 'anchored') return 'has an unknown kind';
+
+	const target = c.target;
+	if (!isRecord(target) || typeof target.exact !== 'string'
+		|| typeof target.prefix !== 'string' || typeof target.suffix !== 'string') {
+		return 'has an invalid target';
+	}
+	if (c.previousTargets !== undefined
+		&& !(Array.isArray(c.previousTargets) && c.previousTargets.every(isValidPreviousTarget))) {
+		return 'has invalid previous targets';
+	}
+	if (c.status !== 'active' && c.status !== 'orphaned') return 'has an invalid status';
+	return null;
+}
+
+function isValidPreviousTarget(t: unknown): boolean {
+	return isRecord(t) && typeof t.exact === 'string' && typeof t.replacedAt === 'string'
+		&& (t.replacedBy === undefined || (isRecord(t.replacedBy) && typeof t.replacedBy.name === 'string'));
+}
+
+function isValidRevision(r: unknown): boolean {
+	return isRecord(r) && typeof r.body === 'string' && typeof r.editedAt === 'string'
+		&& (r.editedBy === undefined || (isRecord(r.editedBy) && typeof r.editedBy.name === 'string'));
+}
+
+/**
+ * Pulls every well-formed comment object out of a damaged sidecar. Walks the
+ * text looking for balanced `{...}` spans (ignoring braces inside strings) and
+ * keeps the ones that parse and validate as comments.
+ */
+export function salvageComments(raw: string): CommentData[] {
+	const found = new Map<string, CommentData>();
+	let i = raw.indexOf('{');
+	while (i !== -1) {
+		const end = findObjectEnd(raw, i);
+		let next = i + 1;
+		if (end !== -1) {
+			try {
+				const parsed = JSON.parse(raw.substring(i, end + 1)) as unknown;
+				if (isValidComment(parsed)) {
+					if (!found.has(parsed.id)) found.set(parsed.id, parsed);
+					next = end + 1;
+				}
+			} catch {
+				// Not a complete object — keep scanning inside it
+			}
+		}
+		i = raw.indexOf('{', next);
+	}
+	return [...found.values()];
+}
+
+/** Reads "sourceFile" from a sidecar even when the rest of the JSON is broken. */
+export function salvageSourceFile(raw: string): string | null {
+	const match = /"sourceFile"\s*:\s*("(?:[^"\\]|\\.)*")/.exec(raw);
+	if (!match) return null;
+	try {
+		return JSON.parse(match[1]!) as string;
+	} catch {
+		return null;
+	}
+}
+
+function findObjectEnd(text: string, start: number): number {
+	let depth = 0;
+	let inString = false;
+	for (let i = start; i < text.length; i++) {
+		const ch = text[i];
+		if (inString) {
+			if (ch === '\\') i++;
+			else if (ch === '"') inString = false;
+		} else if (ch === '"') {
+			inString = true;
+		} else if (ch === '{') {
+			depth++;
+		} else if (ch === '}') {
+			depth--;
+			if (depth === 0) return i;
+		}
+	}
+	return -1;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
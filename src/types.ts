@@ -6,11 +6,38 @@ export interface CommentTarget {
 	lineHint?: number;
 }
 
+export interface CommentAuthor {
+	name: string;
+	color?: string;
+}
+
+export const UNKNOWN_AUTHOR = 'unknown';
+
+/** An earlier body of a comment, kept when the comment was edited. Stored oldest first. */
+export interface CommentRevision {
+	body: string;
+	/** When this body was replaced */
+	editedAt: string;
+	/** Who replaced it, when known */
+	editedBy?: CommentAuthor;
+}
+
+/** A quote an anchored comment used to point to, kept when it was re-attached or updated. Stored oldest first. */
+export interface PreviousTarget {
+	exact: string;
+	/** When the comment was re-attached */
+	replacedAt: string;
+	replacedBy?: CommentAuthor;
+}
+
 export interface AnchoredComment {
 	kind: 'anchored';
 	id: string;
 	body: string;
+	author?: CommentAuthor;
+	revisions?: CommentRevision[];
 	target: CommentTarget;
+	previousTargets?: PreviousTarget[];
 	status: 'active' | 'orphaned';
 	resolution?: 'open' | 'resolved';
 	createdAt: string;
@@ -21,17 +48,44 @@ export interface NoteComment {
 	kind: 'note';
 	id: string;
 	body: string;
+	author?: CommentAuthor;
+	revisions?: CommentRevision[];
 	resolution?: 'open' | 'resolved';
 	createdAt: string;
 	updatedAt: string;
 }
 
-export type RootComment = AnchoredComment | NoteComment;
+export interface CanvasTarget {
+	type: 'node' | 'edge';
+	id: string;
+	/** Node text or edge label when the comment was made; used to find the item again if its id changes */
+	text: string;
+}
+
+export interface CanvasComment {
+	kind: 'canvas';
+	id: string;
+	body: string;
+	author?: CommentAuthor;
+	revisions?: CommentRevision[];
+	target: CanvasTarget;
+	status: 'active' | 'orphaned';
+	resolution?: 'open' | 'resolved';
+	createdAt: string;
+	updatedAt: string;
+}
+
+export type RootComment = AnchoredComment | NoteComment | CanvasComment;
+
+/** Comments that can have replies */
+export type ThreadRoot = AnchoredComment | CanvasComment;
 
 export interface ReplyComment {
 	id: string;
 	parentId: string;
 	body: string;
+	author?: CommentAuthor;
+	revisions?: CommentRevision[];
 	createdAt: string;
 	updatedAt: string;
 }
@@ -54,31 +108,68 @@ export function isNoteComment(c: CommentData): c is NoteComment {
 	return 'kind' in c && (c as NoteComment).kind === 'note';
 }
 
+export function isCanvasComment(c: CommentData): c is CanvasComment {
+	return 'kind' in c && (c as CanvasComment).kind === 'canvas';
+}
+
+export function isThreadRoot(c: CommentData): c is ThreadRoot {
+	return isAnchoredComment(c) || isCanvasComment(c);
+}
+
+/** The quoted text shown for a thread: the anchored text, or the canvas item's text. */
+export function getTargetText(root: ThreadRoot): string {
+	if (isAnchoredComment(root)) return root.target.exact;
+	return root.target.text || (root.target.type === 'edge' ? 'Canvas edge' : 'Canvas node');
+}
+
 export function getRootResolution(c: RootComment): 'open' | 'resolved' {
 	return c.resolution ?? 'open';
 }
 
+export function getAuthorName(c: CommentData): string {
+	return c.author?.name || UNKNOWN_AUTHOR;
+}
+
 export interface CommentThread {
-	root: AnchoredComment;
+	root: ThreadRoot;
 	replies: ReplyComment[];
 }
 
+export type CommentFilter = 'all' | 'open' | 'resolved' | 'active' | 'orphaned';
+
 export interface PanelData {
 	noteComments: NoteComment[];
 	threads: CommentThread[];
 }
 
+export const COMMENT_FILE_VERSION = 2;
+export const PATH_INDEX_VERSION = 2;
+export const TRASH_VERSION = 1;
+
 export interface CommentFile {
-	version: 1;
+	version: typeof COMMENT_FILE_VERSION;
 	sourceFile: string;
 	comments: CommentData[];
 }
 
 export interface PathIndexData {
-	version: 1;
+	version: typeof PATH_INDEX_VERSION;
 	mappings: Record<string, string>;
 }
 
+export interface TrashEntry {
+	id: string;
+	notePath: string;
+	deletedAt: string;
+	/** The deleted comment, followed by its replies when a thread was deleted */
+	comments: CommentData[];
+}
+
+export interface TrashData {
+	version: typeof TRASH_VERSION;
+	entries: TrashEntry[];
+}
+
 export interface ResolvedAnchor {
 	from: number;
 	to: number;
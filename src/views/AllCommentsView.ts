@@ -0,0 +1,270 @@
+import {ItemView, MarkdownRenderer, TFile, WorkspaceLeaf, setIcon} from 'obsidian';
+import type MarginaliaPlugin from '../main';
+import type {CommentData, CommentFilter, CommentThread, NoteComment, PanelData, ResolvedAnchor, RootComment} from '../types';
+import {getRootResolution, getTargetText} from '../types';
+import {collectAuthors, getPanelData, filterPanelData} from '../comment/threading';
+import {parseSearchQuery, searchComments} from '../comment/search';
+import {renderFilterGroup} from './filterMenu';
+import {renderAuthorBadge} from './authorBadge';
+import {renderLockedPlaceholder} from './lockedPlaceholder';
+
+export const VIEW_TYPE_ALL_COMMENTS = 'marginalia-all-comments';
+
+interface NoteGroup {
+	notePath: string;
+	comments: CommentData[];
+	panelData: PanelData;
+}
+
+export class AllCommentsView extends ItemView {
+	private plugin: MarginaliaPlugin;
+	private groups: NoteGroup[] = [];
+	private filter: CommentFilter = 'all';
+	private authorFilter: string | null = null;
+	private authors: string[] = [];
+	private query = '';
+	// Set when comments changed while the view was not focused
+	private stale = false;
+	private filterContainer: HTMLElement;
+	private listContainer: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: MarginaliaPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_ALL_COMMENTS;
+	}
+
+	getDisplayText(): string {
+		return 'All comments';
+	}
+
+	getIcon(): string {
+		return 'messages-square';
+	}
+
+	async onOpen(): Promise<void> {
+		this.registerEvent(
+			this.plugin.app.workspace.on('active-leaf-change', (leaf) => {
+				if (leaf === this.leaf && this.stale) void this.refresh();
+			})
+		);
+
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.addClass('marginalia-panel');
+
+		const toolbar = contentEl.createDiv({cls: 'marginalia-toolbar'});
+		this.filterContainer = toolbar.createDiv();
+		const searchEl = contentEl.createEl('input', {
+			cls: 'marginalia-search-input',
+			attr: {type: 'search', placeholder: 'Search comments...'},
+		});
+		searchEl.addEventListener('input', () => {
+			this.query = searchEl.value;
+			this.renderList();
+		});
+		this.listContainer = contentEl.createDiv();
+
+		await this.refresh();
+	}
+
+	onClose(): Promise<void> {
+		this.contentEl.empty();
+		return Promise.resolve();
+	}
+
+	/**
+	 * Called when comments change. Reading every annotated note is slow on
+	 * large vaults, so the view only refreshes now if it is focused, and
+	 * otherwise the next time it is.
+	 */
+	markStale(): void {
+		if (this.plugin.app.workspace.getActiveViewOfType(AllCommentsView) === this) {
+			void this.refresh();
+		} else {
+			this.stale = true;
+		}
+	}
+
+	async refresh(): Promise<void> {
+		this.stale = false;
+		const groups: NoteGroup[] = [];
+		const authors = new Set<string>();
+		const notePaths = this.plugin.store.getAnnotatedNotePaths()
+			.sort((a, b) => a.localeCompare(b));
+
+		for (const notePath of notePaths) {
+			const comments = await this.plugin.store.getComments(notePath);
+			if (comments.length === 0) continue;
+			for (const author of collectAuthors(comments)) authors.add(author);
+
+			let anchors = new Map<string, ResolvedAnchor>();
+			const file = this.plugin.app.vault.getAbstractFileByPath(notePath);
+			if (file instanceof TFile && file.extension === 'md') {
+				const content = await this.plugin.app.vault.cachedRead(file);
+				anchors = await this.plugin.store.resolveAnchors(
+					notePath, content, this.plugin.settings.fuzzyMatchThreshold
+				);
+			}
+
+			const panelData = filterPanelData(
+				getPanelData(comments), this.filter, this.plugin.settings.commentSortOrder, anchors, this.authorFilter
+			);
+			groups.push({notePath, comments, panelData});
+		}
+
+		this.groups = groups;
+		this.authors = [...authors].sort((a, b) => a.localeCompare(b));
+		this.renderFilters();
+		this.renderList();
+	}
+
+	private renderFilters(): void {
+		this.filterContainer.empty();
+		renderFilterGroup(this.filterContainer, this.filter, (value) => {
+			this.filter = value;
+			void this.refresh();
+		}, {
+			authors: this.authors,
+			current: this.authorFilter,
+			onChange: (author) => {
+				this.authorFilter = author;
+				void this.refresh();
+			},
+		});
+	}
+
+	private renderList(): void {
+		const container = this.listContainer;
+		container.empty();
+		if (this.plugin.store.isLocked) {
+			renderLockedPlaceholder(container, this.plugin);
+			return;
+		}
+
+		const terms = parseSearchQuery(this.query);
+		const visible = this.groups
+			.map(g => terms.length > 0 ? applySearch(g, terms) : g)
+			.filter(g => g.panelData.noteComments.length > 0 || g.panelData.threads.length > 0);
+
+		if (visible.length === 0) {
+			container.createEl('div', {
+				text: terms.length > 0 ? 'No matching comments.' : 'No comments in this vault.',
+				cls: 'marginalia-empty',
+			});
+			return;
+		}
+
+		const listEl = container.createDiv({cls: 'marginalia-list'});
+		for (const group of visible) {
+			this.renderGroup(listEl, group);
+		}
+	}
+
+	private renderGroup(container: HTMLElement, group: NoteGroup): void {
+		const groupEl = container.createDiv({cls: 'marginalia-note-group'});
+
+		const header = groupEl.createDiv({cls: 'marginalia-section-header marginalia-note-group-header'});
+		setIcon(header.createSpan(), 'file-text');
+		header.createSpan({text: group.notePath});
+		const count = group.panelData.noteComments.length + group.panelData.threads.length;
+		header.createSpan({text: String(count), cls: 'marginalia-note-group-count'});
+		header.addEventListener('click', () => {
+			void this.plugin.app.workspace.openLinkText(group.notePath, '', false);
+		});
+
+		for (const nc of group.panelData.noteComments) {
+			this.renderNoteComment(groupEl, group.notePath, nc);
+		}
+		for (const thread of group.panelData.threads) {
+			this.renderThread(groupEl, group.notePath, thread);
+		}
+	}
+
+	private renderNoteComment(container: HTMLElement, notePath: string, nc: NoteComment): void {
+		const resolved = getRootResolution(nc) === 'resolved';
+		const item = container.createDiv({
+			cls: `marginalia-note-item marginalia-clickable${resolved ? ' marginalia-resolved' : ''}`,
+			attr: {'data-comment-id': nc.id},
+		});
+
+		const label = item.createDiv({cls: 'marginalia-note-label'});
+		setIcon(label.createSpan(), 'sticky-note');
+		label.createSpan({text: 'Note'});
+		if (resolved) {
+			label.createSpan({text: ' (resolved)', cls: 'marginalia-resolved-badge'});
+		}
+
+		this.renderBody(item, notePath, nc.body);
+		this.renderFooter(item, nc, 0);
+
+		item.addEventListener('click', () => {
+			void this.plugin.openComment(notePath, nc.id);
+		});
+	}
+
+	private renderThread(container: HTMLElement, notePath: string, thread: CommentThread): void {
+		const {root} = thread;
+		const resolved = getRootResolution(root) === 'resolved';
+		let cls = 'marginalia-thread marginalia-item marginalia-clickable';
+		if (root.status === 'orphaned') cls += ' marginalia-orphaned';
+		if (resolved) cls += ' marginalia-resolved';
+		const item = container.createDiv({
+			cls,
+			attr: {'data-comment-id': root.id},
+		});
+
+		const quote = item.createEl('blockquote', {cls: 'marginalia-quote'});
+		const exact = getTargetText(root);
+		const exactText = exact.length > 100 ? exact.substring(0, 100) + '...' : exact;
+		quote.createEl('span', {text: exactText});
+		if (root.status === 'orphaned') {
+			quote.createEl('span', {text: ' (orphaned)', cls: 'marginalia-orphaned-badge'});
+		}
+		if (resolved) {
+			quote.createEl('span', {text: ' (resolved)', cls: 'marginalia-resolved-badge'});
+		}
+
+		this.renderBody(item, notePath, root.body);
+		this.renderFooter(item, root, thread.replies.length);
+
+		item.addEventListener('click', () => {
+			void this.plugin.openComment(notePath, root.id);
+		});
+	}
+
+	private renderBody(container: HTMLElement, notePath: string, body: string): void {
+		const bodyEl = container.createDiv({cls: 'marginalia-body'});
+		void MarkdownRenderer.render(this.plugin.app, body, bodyEl, notePath, this);
+	}
+
+	private renderFooter(container: HTMLElement, comment: RootComment, replyCount: number): void {
+		const footer = container.createDiv({cls: 'marginalia-footer'});
+		const meta = footer.createDiv({cls: 'marginalia-meta'});
+		renderAuthorBadge(meta, comment);
+		meta.createEl('span', {
+			text: new Date(comment.createdAt).toLocaleString(),
+			cls: 'marginalia-timestamp',
+		});
+		if (replyCount > 0) {
+			footer.createEl('span', {
+				text: `${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`,
+				cls: 'marginalia-timestamp',
+			});
+		}
+	}
+}
+
+function applySearch(group: NoteGroup, terms: string[]): NoteGroup {
+	const matchedRoots = new Set(searchComments(group.notePath, group.comments, terms).map(m => m.rootId));
+	return {
+		...group,
+		panelData: {
+			noteComments: group.panelData.noteComments.filter(nc => matchedRoots.has(nc.id)),
+			threads: group.panelData.threads.filter(t => matchedRoots.has(t.root.id)),
+		},
+	};
+}
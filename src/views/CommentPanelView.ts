@@ -1,9 +1,16 @@
-import {ItemView, MarkdownRenderer, MarkdownView, Menu, WorkspaceLeaf, TFile, setIcon} from 'obsidian';
+import {ItemView, MarkdownRenderer, MarkdownView, Notice, WorkspaceLeaf, TFile, setIcon} from 'obsidian';
 import type MarginaliaPlugin from '../main';
-import type {AnchoredComment, CommentData, CommentThread, NoteComment, PanelData, ReplyComment, RootComment, ResolvedAnchor} from '../types';
-import {isReplyComment, isNoteComment, getRootResolution} from '../types';
-import {getPanelData, filterPanelData} from '../comment/threading';
+import type {AnchoredComment, CommentData, CommentFilter, CommentThread, NoteComment, PanelData, ReplyComment, RootComment, ResolvedAnchor, ThreadRoot} from '../types';
+import {isAnchoredComment, isReplyComment, isNoteComment, isCanvasComment, getRootResolution, getTargetText} from '../types';
+import {collectAuthors, getPanelData, filterPanelData} from '../comment/threading';
+import {createTarget} from '../anchoring/TextQuoteSelector';
+import {diffWords} from '../comment/diff';
+import {hasHistory, isEdited} from '../comment/revisions';
 import {CommentModal} from './CommentModal';
+import {RevisionModal} from './RevisionModal';
+import {renderFilterGroup} from './filterMenu';
+import {renderAuthorBadge} from './authorBadge';
+import {renderLockedPlaceholder} from './lockedPlaceholder';
 
 export const VIEW_TYPE_COMMENT_PANEL = 'marginalia-panel';
 
@@ -12,7 +19,10 @@ export class CommentPanelView extends ItemView {
 	private currentFile: TFile | null = null;
 	private comments: CommentData[] = [];
 	private anchors: Map<string, ResolvedAnchor> = new Map();
-	private filter: 'all' | 'open' | 'resolved' | 'active' | 'orphaned' = 'all';
+	// Text of the active Markdown note, for comparing fuzzy matches with their quotes
+	private docText = '';
+	private filter: CommentFilter = 'all';
+	private authorFilter: string | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: MarginaliaPlugin) {
 		super(leaf);
@@ -69,10 +79,11 @@ export class CommentPanelView extends ItemView {
 
 	async updateForActiveFile(): Promise<void> {
 		const file = this.plugin.app.workspace.getActiveFile();
-		if (!file || file.extension !== 'md') {
+		if (!file) {
 			this.currentFile = null;
 			this.comments = [];
 			this.anchors = new Map();
+			this.docText = '';
 			this.renderPanel();
 			return;
 		}
@@ -80,10 +91,22 @@ export class CommentPanelView extends ItemView {
 		this.currentFile = file;
 		this.comments = await this.plugin.store.getComments(file.path);
 
-		const content = await this.plugin.app.vault.read(file);
-		this.anchors = await this.plugin.store.resolveAnchors(
-			file.path, content, this.plugin.settings.fuzzyMatchThreshold
-		);
+		// Only Markdown files have text to anchor to; canvases anchor to their nodes and edges
+		if (file.extension === 'md') {
+			const content = await this.plugin.app.vault.read(file);
+			this.anchors = await this.plugin.store.resolveAnchors(
+				file.path, content, this.plugin.settings.fuzzyMatchThreshold
+			);
+			this.docText = content;
+		} else if (file.extension === 'canvas') {
+			const content = await this.plugin.app.vault.read(file);
+			await this.plugin.store.resolveCanvasAnchors(file.path, content);
+			this.anchors = new Map();
+			this.docText = '';
+		} else {
+			this.anchors = new Map();
+			this.docText = '';
+		}
 
 		this.renderPanel();
 	}
@@ -108,11 +131,15 @@ export class CommentPanelView extends ItemView {
 
 		if (!this.currentFile) {
 			contentEl.createEl('div', {
-				text: 'Open a Markdown file to see comments.',
+				text: 'Open a file to see comments.',
 				cls: 'marginalia-empty',
 			});
 			return;
 		}
+		if (this.plugin.store.isLocked) {
+			renderLockedPlaceholder(contentEl, this.plugin);
+			return;
+		}
 
 		this.renderToolbar(contentEl);
 
@@ -153,54 +180,16 @@ export class CommentPanelView extends ItemView {
 	private renderToolbar(container: HTMLElement): void {
 		const toolbar = container.createDiv({cls: 'marginalia-toolbar'});
 
-		const filterGroup = toolbar.createDiv({cls: 'marginalia-filter-group'});
-
-		type FilterValue = typeof this.filter;
-		const primaryFilters: Array<{label: string; value: FilterValue}> = [
-			{label: 'All', value: 'all'},
-			{label: 'Open', value: 'open'},
-			{label: 'Resolved', value: 'resolved'},
-		];
-
-		const overflowFilters: Array<{label: string; value: FilterValue}> = [
-			{label: 'Active', value: 'active'},
-			{label: 'Orphaned', value: 'orphaned'},
-		];
-
-		for (const f of primaryFilters) {
-			const btn = filterGroup.createEl('button', {
-				text: f.label,
-				cls: `marginalia-filter-btn${this.filter === f.value ? ' is-active' : ''}`,
-			});
-			btn.addEventListener('click', () => {
-				this.filter = f.value;
+		renderFilterGroup(toolbar, this.filter, (value) => {
+			this.filter = value;
+			this.renderPanel();
+		}, {
+			authors: collectAuthors(this.comments),
+			current: this.authorFilter,
+			onChange: (author) => {
+				this.authorFilter = author;
 				this.renderPanel();
-			});
-		}
-
-		// Overflow menu button for Active / Orphaned filters
-		const isOverflowActive = overflowFilters.some(f => f.value === this.filter);
-		const moreBtn = filterGroup.createEl('button', {
-			cls: `marginalia-more-btn clickable-icon${isOverflowActive ? ' is-active' : ''}`,
-			attr: {'aria-label': 'More filters'},
-		});
-		setIcon(moreBtn, 'more-horizontal');
-		moreBtn.addEventListener('click', () => {
-			const menu = new Menu();
-			for (const f of overflowFilters) {
-				menu.addItem(item => {
-					item.setTitle(f.label)
-						.setChecked(this.filter === f.value)
-						.onClick(() => {
-							this.filter = f.value;
-							this.renderPanel();
-						});
-				});
-			}
-			menu.showAtMouseEvent(new MouseEvent('click', {
-				clientX: moreBtn.getBoundingClientRect().left,
-				clientY: moreBtn.getBoundingClientRect().bottom,
-			}));
+			},
 		});
 
 		// Add note comment button
@@ -218,21 +207,14 @@ export class CommentPanelView extends ItemView {
 		if (!this.currentFile) return;
 		const filePath = this.currentFile.path;
 
-		new CommentModal(
-			this.plugin.app,
-			(body) => {
-				void this.plugin.store.addNoteComment(filePath, body).then(() => {
-					void this.refresh();
-				});
-			},
-			undefined,
-			'Add note comment'
-		).open();
+		this.plugin.openNewCommentModal('Add note comment', (body) => this.plugin.store.addNoteComment(filePath, body), () => {
+			void this.refresh();
+		});
 	}
 
 	private getFilteredPanelData(): PanelData {
 		const panelData = getPanelData(this.comments);
-		return filterPanelData(panelData, this.filter, this.plugin.settings.commentSortOrder, this.anchors);
+		return filterPanelData(panelData, this.filter, this.plugin.settings.commentSortOrder, this.anchors, this.authorFilter);
 	}
 
 	private renderNoteComment(container: HTMLElement, nc: NoteComment): void {
@@ -263,11 +245,13 @@ export class CommentPanelView extends ItemView {
 		// Footer: timestamp + actions
 		const footer = item.createDiv({cls: 'marginalia-footer'});
 
-		const time = new Date(nc.createdAt);
-		footer.createEl('span', {
-			text: time.toLocaleString(),
+		const meta = footer.createDiv({cls: 'marginalia-meta'});
+		renderAuthorBadge(meta, nc);
+		meta.createEl('span', {
+			text: new Date(nc.createdAt).toLocaleString(),
 			cls: 'marginalia-timestamp',
 		});
+		this.renderEditedMarker(meta, nc);
 
 		const actions = footer.createDiv({cls: 'marginalia-actions'});
 
@@ -303,6 +287,7 @@ export class CommentPanelView extends ItemView {
 		const resolved = getRootResolution(thread.root) === 'resolved';
 		let cls = 'marginalia-thread';
 		if (thread.root.status === 'orphaned') cls += ' marginalia-orphaned';
+		if (this.anchors.get(thread.root.id)?.stage === 3) cls += ' marginalia-outdated';
 		if (resolved) cls += ' marginalia-resolved';
 		const threadEl = container.createDiv({
 			cls,
@@ -319,7 +304,7 @@ export class CommentPanelView extends ItemView {
 		}
 	}
 
-	private renderRootComment(container: HTMLElement, root: AnchoredComment, replyCount: number): void {
+	private renderRootComment(container: HTMLElement, root: ThreadRoot, replyCount: number): void {
 		const resolved = getRootResolution(root) === 'resolved';
 		const item = container.createDiv({cls: 'marginalia-item'});
 
@@ -327,9 +312,8 @@ export class CommentPanelView extends ItemView {
 		const quote = item.createEl('blockquote', {
 			cls: 'marginalia-quote',
 		});
-		const exactText = root.target.exact.length > 100
-			? root.target.exact.substring(0, 100) + '...'
-			: root.target.exact;
+		const exact = getTargetText(root);
+		const exactText = exact.length > 100 ? exact.substring(0, 100) + '...' : exact;
 		quote.createEl('span', {text: exactText});
 
 		if (root.status === 'orphaned') {
@@ -338,16 +322,31 @@ export class CommentPanelView extends ItemView {
 				cls: 'marginalia-orphaned-badge',
 			});
 		}
+		// Only similar text was found, like an outdated review comment on changed code
+		const anchor = isAnchoredComment(root) ? this.anchors.get(root.id) : undefined;
+		if (anchor?.stage === 3) {
+			quote.createEl('span', {
+				text: ' (outdated)',
+				cls: 'marginalia-outdated-badge',
+			});
+		}
 		if (resolved) {
 			quote.createEl('span', {
 				text: ' (resolved)',
 				cls: 'marginalia-resolved-badge',
 			});
 		}
+		if (anchor?.stage === 3 && isAnchoredComment(root)) {
+			this.renderOutdatedDiff(item, root, anchor);
+		}
 
-		// Click quote to scroll editor
+		// Click quote to scroll editor, or to select the item on a canvas
 		quote.addEventListener('click', () => {
-			this.scrollEditorToComment(root);
+			if (isCanvasComment(root)) {
+				if (this.currentFile) this.plugin.focusCanvasComment(this.currentFile.path, root);
+			} else {
+				this.scrollEditorToComment(root);
+			}
 		});
 
 		// Comment body (rendered as Markdown)
@@ -363,11 +362,13 @@ export class CommentPanelView extends ItemView {
 		// Footer: timestamp + actions
 		const footer = item.createDiv({cls: 'marginalia-footer'});
 
-		const time = new Date(root.createdAt);
-		footer.createEl('span', {
-			text: time.toLocaleString(),
+		const meta = footer.createDiv({cls: 'marginalia-meta'});
+		renderAuthorBadge(meta, root);
+		meta.createEl('span', {
+			text: new Date(root.createdAt).toLocaleString(),
 			cls: 'marginalia-timestamp',
 		});
+		this.renderEditedMarker(meta, root);
 
 		const actions = footer.createDiv({cls: 'marginalia-actions'});
 
@@ -395,6 +396,26 @@ export class CommentPanelView extends ItemView {
 			this.addReply(root);
 		});
 
+		if (root.status === 'orphaned' && isAnchoredComment(root)) {
+			const reattachBtn = actions.createEl('button', {
+				cls: 'marginalia-action-btn clickable-icon',
+				attr: {'aria-label': 'Re-attach to selection'},
+			});
+			setIcon(reattachBtn, 'link');
+			reattachBtn.addEventListener('click', () => {
+				void this.reattachComment(root);
+			});
+
+			const findBtn = actions.createEl('button', {
+				cls: 'marginalia-action-btn clickable-icon',
+				attr: {'aria-label': 'Find moved text in other notes'},
+			});
+			setIcon(findBtn, 'search');
+			findBtn.addEventListener('click', () => {
+				if (this.currentFile) void this.plugin.findMovedAnchors(this.currentFile.path, [root.id]);
+			});
+		}
+
 		const editBtn = actions.createEl('button', {
 			cls: 'marginalia-action-btn clickable-icon',
 			attr: {'aria-label': 'Edit comment'},
@@ -433,11 +454,13 @@ export class CommentPanelView extends ItemView {
 		// Footer: timestamp + actions
 		const footer = item.createDiv({cls: 'marginalia-footer'});
 
-		const time = new Date(reply.createdAt);
-		footer.createEl('span', {
-			text: time.toLocaleString(),
+		const meta = footer.createDiv({cls: 'marginalia-meta'});
+		renderAuthorBadge(meta, reply);
+		meta.createEl('span', {
+			text: new Date(reply.createdAt).toLocaleString(),
 			cls: 'marginalia-timestamp',
 		});
+		this.renderEditedMarker(meta, reply);
 
 		const actions = footer.createDiv({cls: 'marginalia-actions'});
 
@@ -460,6 +483,25 @@ export class CommentPanelView extends ItemView {
 		});
 	}
 
+	private renderEditedMarker(container: HTMLElement, comment: CommentData): void {
+		if (!hasHistory(comment)) return;
+
+		const marker = container.createEl('button', {
+			text: isEdited(comment) ? 'Edited' : 'Re-attached',
+			cls: 'marginalia-edited',
+			attr: {'aria-label': 'Show edit history'},
+		});
+		marker.addEventListener('click', () => {
+			if (!this.currentFile) return;
+			const filePath = this.currentFile.path;
+			new RevisionModal(this.plugin.app, comment, (body) => {
+				void this.plugin.store.updateComment(filePath, comment.id, body).then(() => {
+					void this.refresh();
+				});
+			}).open();
+		});
+	}
+
 	private scrollEditorToComment(root: AnchoredComment): void {
 		const anchor = this.anchors.get(root.id);
 		if (!anchor || !this.currentFile) return;
@@ -481,7 +523,7 @@ export class CommentPanelView extends ItemView {
 		});
 	}
 
-	private addReply(root: AnchoredComment): void {
+	private addReply(root: ThreadRoot): void {
 		if (!this.currentFile) return;
 		const filePath = this.currentFile.path;
 
@@ -512,6 +554,52 @@ export class CommentPanelView extends ItemView {
 		).open();
 	}
 
+	/** Shows how the matched text differs from the quote, with a button to adopt the current text. */
+	private renderOutdatedDiff(container: HTMLElement, root: AnchoredComment, anchor: ResolvedAnchor): void {
+		const current = this.docText.substring(anchor.from, anchor.to);
+		const outdatedEl = container.createDiv({cls: 'marginalia-outdated-diff'});
+		const diffEl = outdatedEl.createDiv({cls: 'marginalia-revision-body'});
+		for (const part of diffWords(root.target.exact, current)) {
+			if (part.type === 'same') {
+				diffEl.appendText(part.text);
+			} else {
+				diffEl.createEl(part.type === 'added' ? 'ins' : 'del', {text: part.text});
+			}
+		}
+
+		const acceptBtn = outdatedEl.createEl('button', {text: 'Accept current text'});
+		acceptBtn.addEventListener('click', () => {
+			if (!this.currentFile) return;
+			const target = createTarget(this.docText, anchor.from, anchor.to);
+			void this.plugin.store.acceptCurrentText(this.currentFile.path, root.id, target).then(() => {
+				void this.refresh();
+				this.plugin.updateGutterEffects();
+			});
+		});
+	}
+
+	/** Points an orphaned comment at the text currently selected in the note's editor. */
+	private async reattachComment(root: AnchoredComment): Promise<void> {
+		if (!this.currentFile) return;
+		const filePath = this.currentFile.path;
+
+		const editor = this.plugin.app.workspace.getLeavesOfType('markdown')
+			.map(leaf => leaf.view)
+			.find((view): view is MarkdownView => view instanceof MarkdownView && view.file?.path === filePath)
+			?.editor;
+		const selectedText = editor?.getSelection();
+		if (!editor || !selectedText) {
+			new Notice('Select the text to attach the comment to in the editor first.');
+			return;
+		}
+
+		const from = editor.posToOffset(editor.getCursor('from'));
+		const target = createTarget(editor.getValue(), from, from + selectedText.length);
+		await this.plugin.store.reattachComment(filePath, root.id, target);
+		await this.refresh();
+		this.plugin.updateGutterEffects();
+	}
+
 	private async toggleResolution(comment: RootComment): Promise<void> {
 		if (!this.currentFile) return;
 		await this.plugin.store.toggleResolution(this.currentFile.path, comment.id);
@@ -523,7 +611,9 @@ export class CommentPanelView extends ItemView {
 
 	private async deleteComment(comment: CommentData): Promise<void> {
 		if (!this.currentFile) return;
-		await this.plugin.store.deleteComment(this.currentFile.path, comment.id);
+		const notePath = this.currentFile.path;
+		if (!(await this.plugin.store.deleteComment(notePath, comment.id))) return;
+		this.plugin.showDeletedNotice(notePath, comment.id);
 		await this.refresh();
 		if (!isNoteComment(comment)) {
 			this.plugin.updateGutterEffects();
@@ -0,0 +1,64 @@
+import {SuggestModal} from 'obsidian';
+import type MarginaliaPlugin from '../main';
+import type {CommentData} from '../types';
+import {parseSearchQuery, searchComments, type CommentSearchMatch} from '../comment/search';
+
+const MAX_RESULTS = 100;
+
+export class CommentSearchModal extends SuggestModal<CommentSearchMatch> {
+	private plugin: MarginaliaPlugin;
+	private notes: Array<{notePath: string; comments: CommentData[]}>;
+
+	constructor(plugin: MarginaliaPlugin, notes: Array<{notePath: string; comments: CommentData[]}>) {
+		super(plugin.app);
+		this.plugin = plugin;
+		this.notes = notes;
+		this.limit = MAX_RESULTS;
+		this.setPlaceholder('Search comment text, replies and quotes...');
+		this.emptyStateText = 'No matching comments.';
+	}
+
+	getSuggestions(query: string): CommentSearchMatch[] {
+		const terms = parseSearchQuery(query);
+		const results: CommentSearchMatch[] = [];
+		for (const {notePath, comments} of this.notes) {
+			results.push(...searchComments(notePath, comments, terms));
+			if (results.length >= MAX_RESULTS) break;
+		}
+		return results;
+	}
+
+	renderSuggestion(match: CommentSearchMatch, el: HTMLElement): void {
+		el.addClass('marginalia-search-result');
+
+		const header = el.createDiv({cls: 'marginalia-search-note'});
+		header.createSpan({text: match.notePath});
+		if (match.field === 'reply') {
+			header.createSpan({text: 'reply', cls: 'marginalia-search-field'});
+		}
+
+		if (match.quote !== null && match.field !== 'quote') {
+			const quoteText = match.quote.length > 80 ? match.quote.substring(0, 80) + '...' : match.quote;
+			el.createDiv({text: quoteText, cls: 'marginalia-search-quote'});
+		}
+
+		const snippetEl = el.createDiv({
+			cls: match.field === 'quote' ? 'marginalia-search-quote' : 'marginalia-search-snippet',
+		});
+		renderHighlighted(snippetEl, match.snippet, match.highlights);
+	}
+
+	onChooseSuggestion(match: CommentSearchMatch): void {
+		void this.plugin.openComment(match.notePath, match.rootId);
+	}
+}
+
+function renderHighlighted(el: HTMLElement, text: string, highlights: Array<{from: number; to: number}>): void {
+	let pos = 0;
+	for (const {from, to} of highlights) {
+		if (from > pos) el.appendText(text.substring(pos, from));
+		el.createSpan({text: text.substring(from, to), cls: 'marginalia-search-highlight'});
+		pos = to;
+	}
+	if (pos < text.length) el.appendText(text.substring(pos));
+}
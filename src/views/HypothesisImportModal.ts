@@ -0,0 +1,65 @@
+import {Modal, Setting, type App, type TFile} from 'obsidian';
+import type {HypothesisDocument} from '../interop/hypothesis';
+import {NotePathSuggest} from './NotePathSuggest';
+
+export class HypothesisImportModal extends Modal {
+	private documents: HypothesisDocument[];
+	private onSubmit: (mapping: Map<string, string>) => void;
+	private mapping: Map<string, string> = new Map();
+
+	constructor(app: App, documents: HypothesisDocument[], onSubmit: (mapping: Map<string, string>) => void) {
+		super(app);
+		this.documents = documents;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		contentEl.addClass('marginalia-modal');
+
+		contentEl.createEl('h3', {text: 'Import Hypothesis annotations'});
+		contentEl.createEl('p', {
+			text: 'Choose the note each annotated document should be imported into. Documents without a note are skipped.',
+			cls: 'marginalia-modal-hint',
+		});
+
+		const notes = this.app.vault.getMarkdownFiles();
+		for (const doc of this.documents) {
+			const guess = guessNote(doc, notes);
+			if (guess) this.mapping.set(doc.uri, guess.path);
+
+			new Setting(contentEl)
+				.setName(`${doc.title} (${doc.count})`)
+				.setDesc(doc.uri)
+				.addSearch(search => {
+					new NotePathSuggest(this.app, search.inputEl);
+					search
+						.setPlaceholder('Note path')
+						.setValue(guess?.path ?? '')
+						.onChange(value => {
+							const path = value.trim();
+							if (path) this.mapping.set(doc.uri, path);
+							else this.mapping.delete(doc.uri);
+						});
+				});
+		}
+
+		const buttonRow = contentEl.createDiv({cls: 'marginalia-modal-buttons'});
+		const importBtn = buttonRow.createEl('button', {text: 'Import', cls: 'mod-cta'});
+		importBtn.addEventListener('click', () => {
+			this.close();
+			this.onSubmit(this.mapping);
+		});
+		const cancelBtn = buttonRow.createEl('button', {text: 'Cancel'});
+		cancelBtn.addEventListener('click', () => this.close());
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+function guessNote(doc: HypothesisDocument, notes: TFile[]): TFile | undefined {
+	const title = doc.title.trim().toLowerCase();
+	return notes.find(f => f.basename.toLowerCase() === title);
+}
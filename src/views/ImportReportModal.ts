@@ -0,0 +1,56 @@
+import {Modal, type App} from 'obsidian';
+import type {ImportSummary} from '../interop/importing';
+
+export class ImportReportModal extends Modal {
+	private summary: ImportSummary;
+
+	constructor(app: App, summary: ImportSummary) {
+		super(app);
+		this.summary = summary;
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		const {summary} = this;
+		contentEl.addClass('marginalia-modal');
+
+		contentEl.createEl('h3', {text: 'Import finished'});
+
+		const stats = contentEl.createEl('ul');
+		stats.createEl('li', {text: `${summary.added} comment(s) imported`});
+		stats.createEl('li', {text: `${summary.active} anchored comment(s) found their text (active)`});
+		stats.createEl('li', {text: `${summary.orphaned} anchored comment(s) could not find their text (orphaned)`});
+		if (summary.skipped > 0) {
+			stats.createEl('li', {text: `${summary.skipped} comment(s) skipped`});
+		}
+
+		if (summary.orphanedQuotes.length > 0) {
+			contentEl.createEl('h4', {text: 'Orphaned comments'});
+			const list = contentEl.createDiv({cls: 'marginalia-report-list'});
+			for (const {notePath, exact} of summary.orphanedQuotes) {
+				const item = list.createDiv({cls: 'marginalia-report-item'});
+				item.createDiv({text: notePath, cls: 'marginalia-search-note'});
+				item.createDiv({
+					text: exact.length > 100 ? exact.substring(0, 100) + '...' : exact,
+					cls: 'marginalia-search-quote',
+				});
+			}
+		}
+
+		if (summary.missingNotes.length > 0) {
+			contentEl.createEl('h4', {text: 'Missing notes'});
+			const list = contentEl.createEl('ul');
+			for (const notePath of summary.missingNotes) {
+				list.createEl('li', {text: notePath});
+			}
+		}
+
+		const buttonRow = contentEl.createDiv({cls: 'marginalia-modal-buttons'});
+		const closeBtn = buttonRow.createEl('button', {text: 'Close', cls: 'mod-cta'});
+		closeBtn.addEventListener('click', () => this.close());
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,85 @@
+import {Modal, Setting, type App} from 'obsidian';
+import type {MovedAnchor, MovedAnchorCandidate} from '../anchoring/MovedAnchorFinder';
+
+/** Resolves to false when the thread could not be moved. */
+export type MoveAction = (found: MovedAnchor, candidate: MovedAnchorCandidate) => Promise<boolean>;
+
+const STAGE_LABELS = {1: 'Exact match', 2: 'Exact match', 3: 'Similar text'} as const;
+
+export class MovedAnchorsModal extends Modal {
+	private found: MovedAnchor[];
+	private notePath: string;
+	private move: MoveAction;
+
+	constructor(app: App, notePath: string, found: MovedAnchor[], move: MoveAction) {
+		super(app);
+		this.notePath = notePath;
+		this.found = found;
+		this.move = move;
+	}
+
+	onOpen(): void {
+		this.contentEl.addClass('marginalia-modal');
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h3', {text: 'Find moved anchors'});
+		if (this.found.length === 0) {
+			contentEl.createEl('p', {text: 'No other note contains the text of these orphaned comments.', cls: 'marginalia-modal-hint'});
+		} else {
+			contentEl.createEl('p', {
+				text: `Found the text of ${this.found.length} orphaned comment(s) from ${this.notePath} in other notes. Moving a comment takes its replies along.`,
+				cls: 'marginalia-modal-hint',
+			});
+		}
+
+		for (const found of this.found) {
+			this.renderComment(contentEl, found);
+		}
+
+		const buttonRow = contentEl.createDiv({cls: 'marginalia-modal-buttons'});
+		const closeBtn = buttonRow.createEl('button', {text: 'Close'});
+		closeBtn.addEventListener('click', () => this.close());
+	}
+
+	private renderComment(container: HTMLElement, found: MovedAnchor): void {
+		const el = container.createDiv({cls: 'marginalia-moved-anchor'});
+		const quote = el.createEl('blockquote', {cls: 'marginalia-quote'});
+		const exact = found.comment.target.exact;
+		quote.setText(exact.length > 100 ? exact.substring(0, 100) + '...' : exact);
+
+		for (const candidate of found.candidates) {
+			const setting = new Setting(el)
+				.setName(candidate.notePath)
+				.setDesc(renderContext(candidate))
+				.addButton(btn => btn
+					.setButtonText('Move here')
+					.onClick(async () => {
+						if (await this.move(found, candidate)) {
+							this.found = this.found.filter(f => f !== found);
+							this.render();
+						}
+					}));
+			setting.nameEl.createSpan({
+				text: ` (${STAGE_LABELS[candidate.anchor.stage]}, line ${candidate.anchor.line + 1})`,
+				cls: 'marginalia-modal-hint',
+			});
+		}
+	}
+}
+
+function renderContext(candidate: MovedAnchorCandidate): DocumentFragment {
+	const fragment = document.createDocumentFragment();
+	fragment.appendText(`…${candidate.target.prefix}`);
+	fragment.createEl('mark', {text: candidate.match});
+	fragment.appendText(`${candidate.target.suffix}…`);
+	return fragment;
+}
@@ -0,0 +1,27 @@
+import {AbstractInputSuggest, type App, type TFile} from 'obsidian';
+
+export class NotePathSuggest extends AbstractInputSuggest<TFile> {
+	private inputEl: HTMLInputElement;
+
+	constructor(app: App, inputEl: HTMLInputElement) {
+		super(app, inputEl);
+		this.inputEl = inputEl;
+	}
+
+	protected getSuggestions(query: string): TFile[] {
+		const lower = query.toLowerCase();
+		return this.app.vault.getMarkdownFiles()
+			.filter(f => f.path.toLowerCase().includes(lower))
+			.slice(0, 50);
+	}
+
+	renderSuggestion(file: TFile, el: HTMLElement): void {
+		el.setText(file.path);
+	}
+
+	selectSuggestion(file: TFile): void {
+		this.setValue(file.path);
+		this.inputEl.dispatchEvent(new Event('input'));
+		this.close();
+	}
+}
@@ -0,0 +1,79 @@
+import {Modal, type App} from 'obsidian';
+
+export class PassphraseModal extends Modal {
+	private onSubmit: (passphrase: string) => void;
+	private modalTitle: string;
+	private confirm: boolean;
+	private inputEl: HTMLInputElement;
+	private confirmEl: HTMLInputElement | null = null;
+	private errorEl: HTMLElement;
+
+	/** With `confirm`, the passphrase is asked for twice, for choosing a new one. */
+	constructor(app: App, title: string, onSubmit: (passphrase: string) => void, confirm = false) {
+		super(app);
+		this.modalTitle = title;
+		this.onSubmit = onSubmit;
+		this.confirm = confirm;
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		contentEl.addClass('marginalia-modal');
+
+		contentEl.createEl('h3', {text: this.modalTitle});
+
+		this.inputEl = contentEl.createEl('input', {
+			type: 'password',
+			cls: 'marginalia-modal-input',
+			attr: {placeholder: 'Passphrase'},
+		});
+		if (this.confirm) {
+			this.confirmEl = contentEl.createEl('input', {
+				type: 'password',
+				cls: 'marginalia-modal-input',
+				attr: {placeholder: 'Repeat passphrase'},
+			});
+			contentEl.createDiv({
+				cls: 'marginalia-modal-hint',
+				text: 'The passphrase cannot be recovered. Without it, encrypted comments cannot be read.',
+			});
+		}
+		this.errorEl = contentEl.createDiv({cls: 'marginalia-modal-error'});
+
+		const buttonRow = contentEl.createDiv({cls: 'marginalia-modal-buttons'});
+
+		const submitBtn = buttonRow.createEl('button', {
+			text: this.confirm ? 'Encrypt' : 'Unlock',
+			cls: 'mod-cta',
+		});
+		submitBtn.addEventListener('click', () => this.submit());
+
+		const cancelBtn = buttonRow.createEl('button', {text: 'Cancel'});
+		cancelBtn.addEventListener('click', () => this.close());
+
+		this.scope.register([], 'Enter', () => {
+			this.submit();
+			return false;
+		});
+
+		setTimeout(() => this.inputEl.focus(), 50);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		const passphrase = this.inputEl.value;
+		if (!passphrase) {
+			this.errorEl.setText('Enter a passphrase.');
+			return;
+		}
+		if (this.confirmEl && this.confirmEl.value !== passphrase) {
+			this.errorEl.setText('The passphrases do not match.');
+			return;
+		}
+		this.onSubmit(passphrase);
+		this.close();
+	}
+}
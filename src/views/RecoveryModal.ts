@@ -0,0 +1,101 @@
+import {Modal, Setting, type App} from 'obsidian';
+import type {QuarantinedFile} from '../storage/CommentStore';
+import {NotePathSuggest} from './NotePathSuggest';
+
+export interface RecoveryActions {
+	/** Resolves to false when the comments could not be restored. */
+	restore: (entry: QuarantinedFile, notePath: string) => Promise<boolean>;
+	delete: (entry: QuarantinedFile) => Promise<void>;
+}
+
+export class RecoveryModal extends Modal {
+	private entries: QuarantinedFile[];
+	private actions: RecoveryActions;
+
+	constructor(app: App, entries: QuarantinedFile[], actions: RecoveryActions) {
+		super(app);
+		this.entries = entries;
+		this.actions = actions;
+	}
+
+	onOpen(): void {
+		this.contentEl.addClass('marginalia-modal');
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h3', {text: 'Recover quarantined comments'});
+		if (this.entries.length === 0) {
+			contentEl.createEl('p', {text: 'No quarantined comment files.', cls: 'marginalia-modal-hint'});
+		} else {
+			contentEl.createEl('p', {
+				text: 'These comment files could not be read and were set aside. Restoring adds the comments that could be salvaged to the chosen note.',
+				cls: 'marginalia-modal-hint',
+			});
+		}
+
+		for (const entry of this.entries) {
+			this.renderEntry(contentEl, entry);
+		}
+
+		const buttonRow = contentEl.createDiv({cls: 'marginalia-modal-buttons'});
+		const closeBtn = buttonRow.createEl('button', {text: 'Close'});
+		closeBtn.addEventListener('click', () => this.close());
+	}
+
+	private renderEntry(container: HTMLElement, entry: QuarantinedFile): void {
+		let notePath = entry.notePath ?? '';
+		const when = entry.quarantinedAt ? new Date(entry.quarantinedAt).toLocaleString() : 'unknown date';
+
+		const setting = new Setting(container)
+			.setName(entry.fileName)
+			.setDesc(`Quarantined ${when}, ${entry.comments.length} comment(s) salvaged`)
+			.addSearch(search => {
+				new NotePathSuggest(this.app, search.inputEl);
+				search
+					.setPlaceholder('Note path')
+					.setValue(notePath)
+					.onChange(value => {
+						notePath = value.trim();
+					});
+			});
+
+		setting.addButton(btn => btn
+			.setButtonText('Restore')
+			.setCta()
+			.setDisabled(entry.comments.length === 0)
+			.onClick(async () => {
+				if (!notePath) return;
+				if (await this.actions.restore(entry, notePath)) {
+					this.remove(entry);
+				}
+			}));
+
+		let confirming = false;
+		setting.addButton(btn => btn
+			.setButtonText('Delete')
+			.setWarning()
+			.onClick(async () => {
+				// Deleting discards the only copy, so ask for a second click
+				if (!confirming) {
+					confirming = true;
+					btn.setButtonText('Click again to delete');
+					return;
+				}
+				await this.actions.delete(entry);
+				this.remove(entry);
+			}));
+	}
+
+	private remove(entry: QuarantinedFile): void {
+		this.entries = this.entries.filter(e => e !== entry);
+		this.render();
+	}
+}
@@ -0,0 +1,90 @@
+import {Modal, type App} from 'obsidian';
+import type {AnchoredComment, CommentData} from '../types';
+import {isAnchoredComment, UNKNOWN_AUTHOR} from '../types';
+import {diffWords} from '../comment/diff';
+import {getCommentVersions} from '../comment/revisions';
+
+export class RevisionModal extends Modal {
+	private comment: CommentData;
+	private onRestore: (body: string) => void;
+
+	constructor(app: App, comment: CommentData, onRestore: (body: string) => void) {
+		super(app);
+		this.comment = comment;
+		this.onRestore = onRestore;
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		contentEl.addClass('marginalia-modal');
+		contentEl.createEl('h3', {text: 'Edit history'});
+
+		const versions = getCommentVersions(this.comment);
+		const list = contentEl.createDiv({cls: 'marginalia-revision-list'});
+
+		// Newest first; each version shows what changed compared to the one before it
+		for (let i = versions.length - 1; i >= 0; i--) {
+			const version = versions[i]!;
+			const previous = versions[i - 1];
+			const current = i === versions.length - 1;
+
+			const item = list.createDiv({cls: 'marginalia-revision'});
+			const header = item.createDiv({cls: 'marginalia-revision-header'});
+			const label = current ? 'Current version' : i === 0 ? 'Original' : `Version ${i + 1}`;
+			header.createSpan({text: label, cls: 'marginalia-revision-label'});
+			header.createSpan({
+				text: `${version.author?.name || UNKNOWN_AUTHOR} · ${new Date(version.savedAt).toLocaleString()}`,
+				cls: 'marginalia-timestamp',
+			});
+
+			const bodyEl = item.createDiv({cls: 'marginalia-revision-body'});
+			if (previous) {
+				for (const part of diffWords(previous.body, version.body)) {
+					if (part.type === 'same') {
+						bodyEl.appendText(part.text);
+					} else {
+						bodyEl.createEl(part.type === 'added' ? 'ins' : 'del', {text: part.text});
+					}
+				}
+			} else {
+				bodyEl.setText(version.body);
+			}
+
+			if (!current) {
+				const restoreBtn = item.createEl('button', {text: 'Restore this version'});
+				restoreBtn.addEventListener('click', () => {
+					this.close();
+					this.onRestore(version.body);
+				});
+			}
+		}
+
+		if (isAnchoredComment(this.comment) && this.comment.previousTargets?.length) {
+			this.renderPreviousTargets(contentEl, this.comment);
+		}
+
+		const buttonRow = contentEl.createDiv({cls: 'marginalia-modal-buttons'});
+		const closeBtn = buttonRow.createEl('button', {text: 'Close'});
+		closeBtn.addEventListener('click', () => this.close());
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/** The text the comment pointed to before it was re-attached, newest first. */
+	private renderPreviousTargets(container: HTMLElement, comment: AnchoredComment): void {
+		container.createEl('h4', {text: 'Earlier quotes'});
+		const list = container.createDiv({cls: 'marginalia-revision-list'});
+		for (const previous of [...comment.previousTargets ?? []].reverse()) {
+			const item = list.createDiv({cls: 'marginalia-revision'});
+			const header = item.createDiv({cls: 'marginalia-revision-header'});
+			header.createSpan({text: 'Replaced', cls: 'marginalia-revision-label'});
+			header.createSpan({
+				text: `${previous.replacedBy?.name || UNKNOWN_AUTHOR} · ${new Date(previous.replacedAt).toLocaleString()}`,
+				cls: 'marginalia-timestamp',
+			});
+			item.createEl('blockquote', {text: previous.exact, cls: 'marginalia-quote'});
+		}
+	}
+}
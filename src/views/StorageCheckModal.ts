@@ -0,0 +1,137 @@
+import {Modal, Setting, type App} from 'obsidian';
+import type {StorageIssue} from '../storage/consistency';
+
+/** Resolves to false when the fix could not be applied. */
+export type RepairAction = (issue: StorageIssue) => Promise<boolean>;
+
+export class StorageCheckModal extends Modal {
+	private issues: StorageIssue[];
+	private repair: RepairAction;
+
+	constructor(app: App, issues: StorageIssue[], repair: RepairAction) {
+		super(app);
+		this.issues = issues;
+		this.repair = repair;
+	}
+
+	onOpen(): void {
+		this.contentEl.addClass('marginalia-modal');
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h3', {text: 'Check comment storage'});
+		if (this.issues.length === 0) {
+			contentEl.createEl('p', {text: 'No problems found.', cls: 'marginalia-modal-hint'});
+		} else {
+			contentEl.createEl('p', {
+				text: `Found ${this.issues.length} problem(s) with the comment index and comment files.`,
+				cls: 'marginalia-modal-hint',
+			});
+		}
+
+		for (const issue of this.issues) {
+			this.renderIssue(contentEl, issue);
+		}
+
+		const buttonRow = contentEl.createDiv({cls: 'marginalia-modal-buttons'});
+		const fixable = this.issues.filter(i => i.type !== 'leftover');
+		if (fixable.length > 0) {
+			const fixAllBtn = buttonRow.createEl('button', {text: `Fix ${fixable.length} problem(s)`, cls: 'mod-cta'});
+			fixAllBtn.addEventListener('click', () => {
+				void this.repairAll(fixable);
+			});
+		}
+		const leftovers = this.issues.filter(i => i.type === 'leftover');
+		if (leftovers.length > 0) {
+			const deleteAllBtn = buttonRow.createEl('button', {text: `Delete ${leftovers.length} leftover file(s)`, cls: 'mod-warning'});
+			let confirming = false;
+			deleteAllBtn.addEventListener('click', () => {
+				// Leftovers hold the only copy of their comments, so ask for a second click
+				if (!confirming) {
+					confirming = true;
+					deleteAllBtn.setText('Click again to delete');
+					return;
+				}
+				void this.repairAll(leftovers);
+			});
+		}
+		const closeBtn = buttonRow.createEl('button', {text: 'Close'});
+		closeBtn.addEventListener('click', () => this.close());
+	}
+
+	private renderIssue(container: HTMLElement, issue: StorageIssue): void {
+		const {name, desc, action} = describeIssue(issue);
+		const setting = new Setting(container).setName(name).setDesc(desc);
+
+		if (issue.type !== 'leftover') {
+			setting.addButton(btn => btn
+				.setButtonText(action)
+				.onClick(async () => {
+					await this.repairOne(issue);
+				}));
+			return;
+		}
+
+		let confirming = false;
+		setting.addButton(btn => btn
+			.setButtonText(action)
+			.setWarning()
+			.onClick(async () => {
+				if (!confirming) {
+					confirming = true;
+					btn.setButtonText('Click again to delete');
+					return;
+				}
+				await this.repairOne(issue);
+			}));
+	}
+
+	private async repairOne(issue: StorageIssue): Promise<void> {
+		if (await this.repair(issue)) {
+			this.issues = this.issues.filter(i => i !== issue);
+			this.render();
+		}
+	}
+
+	private async repairAll(issues: StorageIssue[]): Promise<void> {
+		for (const issue of issues) {
+			if (await this.repair(issue)) {
+				this.issues = this.issues.filter(i => i !== issue);
+			}
+		}
+		this.render();
+	}
+}
+
+function describeIssue(issue: StorageIssue): {name: string; desc: string; action: string} {
+	switch (issue.type) {
+		case 'missing-index-entry':
+			return {name: issue.fileName, desc: `Comments for ${issue.notePath}, missing from the index.`, action: 'Add to index'};
+		case 'duplicate-sidecar':
+			return {name: issue.fileName, desc: `A second comment file for ${issue.notePath}.`, action: 'Merge'};
+		case 'source-mismatch':
+			return {
+				name: issue.fileName,
+				desc: `Indexed for ${issue.notePath}, but the file names ${issue.sourceFile ?? 'no note'}.`,
+				action: 'Fix',
+			};
+		case 'missing-sidecar':
+			return {name: issue.notePath, desc: `The index points to ${issue.fileName}, which does not exist.`, action: 'Remove entry'};
+		case 'renamed':
+			return {name: issue.fileName, desc: `${issue.oldPath} appears to have moved to ${issue.newPath}.`, action: 'Re-link'};
+		case 'leftover':
+			return {
+				name: issue.fileName,
+				desc: `${issue.notePath ?? 'Unknown note'} no longer exists. ${issue.commentCount} comment(s) would be lost.`,
+				action: 'Delete',
+			};
+	}
+}
@@ -0,0 +1,122 @@
+import {ItemView, MarkdownRenderer, WorkspaceLeaf, setIcon} from 'obsidian';
+import type MarginaliaPlugin from '../main';
+import type {TrashEntry} from '../types';
+import {getTargetText, isReplyComment, isThreadRoot} from '../types';
+import {renderAuthorBadge} from './authorBadge';
+
+export const VIEW_TYPE_TRASH = 'marginalia-trash';
+
+export class TrashView extends ItemView {
+	private plugin: MarginaliaPlugin;
+
+	constructor(leaf: WorkspaceLeaf, plugin: MarginaliaPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_TRASH;
+	}
+
+	getDisplayText(): string {
+		return 'Comment trash';
+	}
+
+	getIcon(): string {
+		return 'trash-2';
+	}
+
+	onOpen(): Promise<void> {
+		this.contentEl.addClass('marginalia-panel');
+		this.refresh();
+		return Promise.resolve();
+	}
+
+	onClose(): Promise<void> {
+		this.contentEl.empty();
+		return Promise.resolve();
+	}
+
+	refresh(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		const entries = this.plugin.store.trash.getEntries();
+		const toolbar = contentEl.createDiv({cls: 'marginalia-toolbar'});
+		toolbar.createSpan({text: `${entries.length} deleted`, cls: 'marginalia-timestamp'});
+		if (entries.length > 0) {
+			const emptyBtn = toolbar.createEl('button', {text: 'Empty trash', cls: 'mod-warning'});
+			let confirming = false;
+			emptyBtn.addEventListener('click', () => {
+				// Emptying cannot be undone, so ask for a second click
+				if (!confirming) {
+					confirming = true;
+					emptyBtn.setText('Click again to empty');
+					return;
+				}
+				void this.plugin.store.trash.clear().then(() => this.refresh());
+			});
+		}
+
+		if (entries.length === 0) {
+			contentEl.createEl('div', {text: 'The trash is empty.', cls: 'marginalia-empty'});
+			return;
+		}
+
+		const listEl = contentEl.createDiv({cls: 'marginalia-list'});
+		for (const entry of entries) {
+			this.renderEntry(listEl, entry);
+		}
+	}
+
+	private renderEntry(container: HTMLElement, entry: TrashEntry): void {
+		const [comment, ...replies] = entry.comments;
+		if (!comment) return;
+
+		const item = container.createDiv({cls: 'marginalia-item marginalia-trash-item'});
+		const header = item.createDiv({cls: 'marginalia-trash-note'});
+		setIcon(header.createSpan(), 'file-text');
+		header.createSpan({text: entry.notePath});
+
+		if (isThreadRoot(comment)) {
+			const exact = getTargetText(comment);
+			item.createEl('blockquote', {
+				text: exact.length > 100 ? exact.substring(0, 100) + '...' : exact,
+				cls: 'marginalia-quote',
+			});
+		} else if (isReplyComment(comment)) {
+			item.createDiv({text: 'Reply', cls: 'marginalia-note-label'});
+		} else {
+			const label = item.createDiv({cls: 'marginalia-note-label'});
+			setIcon(label.createSpan(), 'sticky-note');
+			label.createSpan({text: 'Note'});
+		}
+
+		const bodyEl = item.createDiv({cls: 'marginalia-body'});
+		void MarkdownRenderer.render(this.plugin.app, comment.body, bodyEl, entry.notePath, this);
+
+		const footer = item.createDiv({cls: 'marginalia-footer'});
+		const meta = footer.createDiv({cls: 'marginalia-meta'});
+		renderAuthorBadge(meta, comment);
+		meta.createEl('span', {
+			text: `Deleted ${new Date(entry.deletedAt).toLocaleString()}`,
+			cls: 'marginalia-timestamp',
+		});
+		if (replies.length > 0) {
+			footer.createEl('span', {
+				text: `${replies.length} ${replies.length === 1 ? 'reply' : 'replies'}`,
+				cls: 'marginalia-timestamp',
+			});
+		}
+
+		const actions = item.createDiv({cls: 'marginalia-actions'});
+		const restoreBtn = actions.createEl('button', {text: 'Restore', cls: 'mod-cta'});
+		restoreBtn.addEventListener('click', () => {
+			void this.plugin.restoreTrashEntry(entry);
+		});
+		const purgeBtn = actions.createEl('button', {text: 'Delete permanently'});
+		purgeBtn.addEventListener('click', () => {
+			void this.plugin.store.trash.remove(entry.id).then(() => this.refresh());
+		});
+	}
+}
@@ -0,0 +1,12 @@
+import type {CommentData} from '../types';
+import {getAuthorName} from '../types';
+
+export function renderAuthorBadge(container: HTMLElement, comment: CommentData): HTMLElement {
+	const el = container.createSpan({text: getAuthorName(comment), cls: 'marginalia-author'});
+	if (!comment.author) {
+		el.addClass('marginalia-author-unknown');
+	} else if (comment.author.color) {
+		el.setCssProps({'--marginalia-author-color': comment.author.color});
+	}
+	return el;
+}
@@ -0,0 +1,84 @@
+import {Menu, setIcon} from 'obsidian';
+import type {CommentFilter} from '../types';
+
+const PRIMARY_FILTERS: Array<{label: string; value: CommentFilter}> = [
+	{label: 'All', value: 'all'},
+	{label: 'Open', value: 'open'},
+	{label: 'Resolved', value: 'resolved'},
+];
+
+const OVERFLOW_FILTERS: Array<{label: string; value: CommentFilter}> = [
+	{label: 'Active', value: 'active'},
+	{label: 'Orphaned', value: 'orphaned'},
+];
+
+export interface AuthorFilterOptions {
+	authors: string[];
+	current: string | null;
+	onChange: (author: string | null) => void;
+}
+
+export function renderFilterGroup(
+	container: HTMLElement,
+	current: CommentFilter,
+	onChange: (value: CommentFilter) => void,
+	authorFilter?: AuthorFilterOptions
+): HTMLElement {
+	const filterGroup = container.createDiv({cls: 'marginalia-filter-group'});
+
+	for (const f of PRIMARY_FILTERS) {
+		const btn = filterGroup.createEl('button', {
+			text: f.label,
+			cls: `marginalia-filter-btn${current === f.value ? ' is-active' : ''}`,
+		});
+		btn.addEventListener('click', () => {
+			onChange(f.value);
+		});
+	}
+
+	// Overflow menu button for Active / Orphaned and author filters
+	const isOverflowActive = OVERFLOW_FILTERS.some(f => f.value === current)
+		|| (authorFilter !== undefined && authorFilter.current !== null);
+	const moreBtn = filterGroup.createEl('button', {
+		cls: `marginalia-more-btn clickable-icon${isOverflowActive ? ' is-active' : ''}`,
+		attr: {'aria-label': 'More filters'},
+	});
+	setIcon(moreBtn, 'more-horizontal');
+	moreBtn.addEventListener('click', () => {
+		const menu = new Menu();
+		for (const f of OVERFLOW_FILTERS) {
+			menu.addItem(item => {
+				item.setTitle(f.label)
+					.setChecked(current === f.value)
+					.onClick(() => {
+						onChange(f.value);
+					});
+			});
+		}
+		if (authorFilter && authorFilter.authors.length > 0) {
+			menu.addSeparator();
+			menu.addItem(item => {
+				item.setTitle('Any author')
+					.setChecked(authorFilter.current === null)
+					.onClick(() => {
+						authorFilter.onChange(null);
+					});
+			});
+			for (const author of authorFilter.authors) {
+				menu.addItem(item => {
+					item.setTitle(`Authored by ${author}`)
+						.setChecked(authorFilter.current === author)
+						.onClick(() => {
+							authorFilter.onChange(author);
+						});
+				});
+			}
+		}
+		menu.showAtMouseEvent(new MouseEvent('click', {
+			clientX: moreBtn.getBoundingClientRect().left,
+			clientY: moreBtn.getBoundingClientRect().bottom,
+		}));
+	});
+
+	return filterGroup;
+}
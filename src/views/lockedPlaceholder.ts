@@ -0,0 +1,9 @@
+import type MarginaliaPlugin from '../main';
+
+/** Shown instead of comments while they are encrypted and not yet unlocked. */
+export function renderLockedPlaceholder(container: HTMLElement, plugin: MarginaliaPlugin): void {
+	const el = container.createDiv({cls: 'marginalia-empty marginalia-locked'});
+	el.createDiv({text: 'Comments are encrypted.'});
+	const unlockBtn = el.createEl('button', {text: 'Unlock', cls: 'mod-cta'});
+	unlockBtn.addEventListener('click', () => plugin.promptUnlock());
+}